@@ -0,0 +1,48 @@
+// File: app/api/export-lut/route.js
+// Preset + slider di-bake menjadi file .cube untuk dipakai di Lightroom/Resolve.
+
+import { NextResponse } from 'next/server';
+import { buildContentDisposition } from '../../../utils/exportOptions';
+import { blendPresets, hasLockedPreset, loadPresetForExport } from '../../../utils/exportProcessor';
+import { readRequestLicense } from '../../../utils/licenseKeys';
+import { serializeCubeFile } from '../../../utils/lut';
+import { bakeEditLut, buildLutFilename, buildLutTitle } from '../../../utils/lutExport';
+import { ProcessImageError } from '../../../utils/processImageErrors';
+import { readExportLutRequest } from '../../../utils/processImageRequest';
+
+const errorResponse = (error) => {
+    const body = { error: error.message, code: error.code };
+    if (error.field) body.field = error.field;
+    return NextResponse.json(body, { status: error.status });
+};
+
+export async function POST(request) {
+    try {
+        const { presetId, blendPresetId, settings, size, customLut } = await readExportLutRequest(request);
+        const preset = await loadPresetForExport(presetId, customLut);
+        const blendPreset = blendPresetId && settings.blend > 0
+            ? await loadPresetForExport(blendPresetId, customLut, 'blendPresetId')
+            : null;
+        const loaded = blendPresets(preset, blendPreset, settings.blend);
+        // LUT utuh sama dengan memberikan presetnya; hanya untuk pemilik lisensi.
+        if (hasLockedPreset(loaded, readRequestLicense(request))) {
+            throw new ProcessImageError('LICENSE_REQUIRED', undefined, 'presetId');
+        }
+        const { label, lut } = loaded;
+        const cube = serializeCubeFile(bakeEditLut(settings, lut, size, buildLutTitle(label)));
+
+        return new Response(cube, {
+            headers: {
+                'Content-Type': 'text/plain; charset=utf-8',
+                'Content-Disposition': buildContentDisposition(buildLutFilename(label, size)),
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal mengekspor LUT:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
@@ -0,0 +1,59 @@
+// File: app/api/license/route.js
+// Kode lisensi preset berbayar: diverifikasi di sini (HMAC LICENSE_SECRET)
+// lalu disimpan sebagai cookie httpOnly yang dibaca route pratinjau & ekspor.
+
+import { NextResponse } from 'next/server';
+import { LICENSE_COOKIE } from '../../../utils/license';
+import { readRequestLicense, verifyLicenseKey } from '../../../utils/licenseKeys';
+import { ProcessImageError } from '../../../utils/processImageErrors';
+
+// Kode tanpa kedaluwarsa tetap diingat browser selama setahun.
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export const dynamic = 'force-dynamic';
+
+const errorResponse = (error) => {
+    const body = { error: error.message, code: error.code };
+    if (error.field) body.field = error.field;
+    return NextResponse.json(body, { status: error.status });
+};
+
+export async function GET(request) {
+    return NextResponse.json({ license: readRequestLicense(request) });
+}
+
+export async function POST(request) {
+    try {
+        const body = await request.json().catch(() => null);
+        if (typeof body?.key !== 'string' || !body.key.trim()) {
+            throw new ProcessImageError('INVALID_BODY', 'Kode lisensi wajib diisi.', 'key');
+        }
+        const key = body.key.trim();
+        const license = verifyLicenseKey(key);
+        if (!license) {
+            throw new ProcessImageError('INVALID_LICENSE', undefined, 'key');
+        }
+
+        const response = NextResponse.json({ license });
+        response.cookies.set(LICENSE_COOKIE, key, {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            maxAge: license.expiresAt ? Math.max(0, license.expiresAt - Math.floor(Date.now() / 1000)) : COOKIE_MAX_AGE,
+        });
+        return response;
+    } catch (error) {
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal memverifikasi lisensi:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
+
+export async function DELETE() {
+    const response = NextResponse.json({ license: null });
+    response.cookies.delete(LICENSE_COOKIE);
+    return response;
+}
@@ -0,0 +1,31 @@
+// File: app/api/presets/[presetId]/lut/route.js
+// Menyajikan file .cube sebuah preset untuk pratinjau di browser. Preset
+// berbayar tanpa lisensi hanya dikirim sebagai LUT kasar hasil sampel ulang.
+
+import { NextResponse } from 'next/server';
+import { isPresetUnlocked } from '../../../../../utils/license';
+import { readRequestLicense } from '../../../../../utils/licenseKeys';
+import { resampleLut, serializeCubeFile } from '../../../../../utils/lut';
+import { getPreset, readPresetCubeText, readPresetLut } from '../../../../../utils/presetRegistry';
+
+// Cukup untuk menilai nuansa warna di pratinjau, terlalu kasar untuk dipakai ulang.
+const LOCKED_PREVIEW_LUT_SIZE = 9;
+
+export async function GET(request, { params }) {
+    const { presetId } = await params;
+    try {
+        const preset = await getPreset(presetId);
+        if (!preset) {
+            return new NextResponse(JSON.stringify({ error: 'Preset tidak ditemukan.' }), { status: 404 });
+        }
+        const text = preset.paid && !isPresetUnlocked(readRequestLicense(request), preset.id)
+            ? serializeCubeFile(resampleLut(await readPresetLut(preset), LOCKED_PREVIEW_LUT_SIZE))
+            : await readPresetCubeText(preset);
+        return new NextResponse(text, {
+            headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'private, no-cache', 'Vary': 'Cookie' },
+        });
+    } catch (error) {
+        console.error(`[SERVER] Gagal menyajikan LUT untuk preset ${presetId}:`, error);
+        return new NextResponse(JSON.stringify({ error: 'Gagal memuat file preset.' }), { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+// File: app/api/presets/route.js
+// Daftar kategori & preset untuk halaman, diambil dari presets/manifest.json.
+
+import { NextResponse } from 'next/server';
+import { toPublicManifest } from '../../../utils/presetManifest';
+import { loadPresetManifest } from '../../../utils/presetRegistry';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const manifest = await loadPresetManifest();
+        return NextResponse.json(toPublicManifest(manifest));
+    } catch (error) {
+        console.error("[SERVER] Gagal memuat manifest preset:", error);
+        return new NextResponse(JSON.stringify({ error: 'Gagal memuat daftar preset.' }), { status: 500 });
+    }
+}
@@ -0,0 +1,106 @@
+// File: app/api/process-batch/route.js
+// Ekspor HD banyak foto sekaligus. Tiap foto memakai preset dan slider
+// masing-masing; hasilnya dikirim sebagai satu file ZIP.
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { mapWithConcurrency } from '../../../utils/concurrency';
+import { beginExportJob } from '../../../utils/exportJobs';
+import { buildContentDisposition } from '../../../utils/exportOptions';
+import { blendPresets, loadPresetForExport, processImageExport, resolveWatermark } from '../../../utils/exportProcessor';
+import { readRequestLicense } from '../../../utils/licenseKeys';
+import { ProcessImageError } from '../../../utils/processImageErrors';
+import { readProcessBatchRequest } from '../../../utils/processImageRequest';
+import { createZip, uniqueZipNames } from '../../../utils/zip';
+
+// Foto 24MP butuh ~100MB memori selama diproses; dua sekaligus cukup untuk
+// menumpuk decode/encode (sharp, di luar thread JS) dengan pipeline.
+const BATCH_CONCURRENCY = 2;
+// Porsi progres untuk memproses foto; sisanya untuk menyusun ZIP.
+const PROGRESS_PHOTOS = 95;
+const BATCH_FILENAME = 'hasil_HD_batch_by_masarif_id.zip';
+
+const errorResponse = (error) => {
+    const body = { error: error.message, code: error.code };
+    if (error.field) body.field = error.field;
+    return NextResponse.json(body, { status: error.status });
+};
+
+export async function POST(request) {
+    let job = null;
+    try {
+        const { items, exportOptions, jobId, customLut } = await readProcessBatchRequest(request);
+        const license = readRequestLicense(request);
+        job = beginExportJob(jobId ?? randomUUID());
+        // Klien menutup koneksi (AbortController) = job dibatalkan.
+        request.signal.addEventListener('abort', () => job.cancel());
+        job.update('decoding', 0);
+
+        // LUT dibaca sekali per preset walaupun dipakai banyak foto; begitu
+        // juga campuran preset yang sama.
+        const presets = new Map();
+        const loadPreset = (presetId, field) => {
+            if (!presets.has(presetId)) {
+                presets.set(presetId, loadPresetForExport(presetId, customLut, field));
+            }
+            return presets.get(presetId);
+        };
+        const blends = new Map();
+        const loadItemPreset = async (presetId, blendPresetId, settings, index) => {
+            const preset = await loadPreset(presetId, `items[${index}].presetId`);
+            if (!blendPresetId || settings.blend <= 0) return preset;
+            const key = `${presetId}|${blendPresetId}|${settings.blend}`;
+            if (!blends.has(key)) {
+                const blendPreset = await loadPreset(blendPresetId, `items[${index}].blendPresetId`);
+                blends.set(key, blendPresets(preset, blendPreset, settings.blend));
+            }
+            return blends.get(key);
+        };
+
+        // Progres batch = rata-rata progres tiap foto.
+        const itemProgress = items.map(() => 0);
+        const results = await mapWithConcurrency(items, BATCH_CONCURRENCY, async ({ presetId, blendPresetId, ...input }, index) => {
+            const task = {
+                update: (stage, progress) => {
+                    itemProgress[index] = progress;
+                    const average = itemProgress.reduce((sum, value) => sum + value, 0) / items.length;
+                    job.update('rendering', (average / 100) * PROGRESS_PHOTOS);
+                },
+                throwIfCancelled: () => job.throwIfCancelled(),
+            };
+            try {
+                const preset = await loadItemPreset(presetId, blendPresetId, input.settings, index);
+                // Watermark hanya untuk foto yang memakai preset berbayar tanpa lisensi.
+                return await processImageExport(input, preset, exportOptions, task, await resolveWatermark(preset, license));
+            } catch (error) {
+                // Pesan error menyebut foto yang gagal.
+                if (error instanceof ProcessImageError && error.code !== 'EXPORT_CANCELLED') {
+                    throw new ProcessImageError(error.code, `${input.sourceName}: ${error.message}`, error.field ?? `items[${index}]`);
+                }
+                throw error;
+            }
+        });
+
+        job.update('encoding', PROGRESS_PHOTOS);
+        const names = uniqueZipNames(results.map(result => result.filename));
+        const zip = createZip(results.map((result, index) => ({ name: names[index], data: result.output })));
+        job.update('done', 100);
+
+        return new Response(zip, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Length': String(zip.length),
+                'Content-Disposition': buildContentDisposition(BATCH_FILENAME),
+                'Cache-Control': 'no-store',
+            },
+        });
+
+    } catch (error) {
+        job?.update('failed', job.status.progress);
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal memproses batch:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
@@ -0,0 +1,84 @@
+// File: app/api/process-image/jobs/[jobId]/route.js
+// Progres job ekspor HD sebagai Server-Sent Events (GET) dan pembatalan
+// job (DELETE). Job dibuat oleh /api/process-image dan /api/process-batch
+// dengan jobId dari klien; id yang belum ada mendapat 404.
+
+import { NextResponse } from 'next/server';
+import { cancelExportJob, findExportJob } from '../../../../../utils/exportJobs';
+import { EXPORT_JOB_ID_PATTERN, isFinalExportStage } from '../../../../../utils/exportProgress';
+import { ProcessImageError } from '../../../../../utils/processImageErrors';
+
+export const dynamic = 'force-dynamic';
+
+const errorResponse = (error) => {
+    const body = { error: error.message, code: error.code };
+    if (error.field) body.field = error.field;
+    return NextResponse.json(body, { status: error.status });
+};
+
+const readJobId = async (params) => {
+    const { jobId } = await params;
+    if (!EXPORT_JOB_ID_PATTERN.test(jobId)) {
+        throw new ProcessImageError('INVALID_BODY', 'jobId tidak valid.', 'jobId');
+    }
+    return jobId;
+};
+
+export async function GET(request, { params }) {
+    try {
+        const job = findExportJob(await readJobId(params));
+        if (!job) throw new ProcessImageError('JOB_NOT_FOUND', undefined, 'jobId');
+        const encoder = new TextEncoder();
+        let unsubscribe = () => {};
+        const stream = new ReadableStream({
+            start(controller) {
+                let closed = false;
+                const close = () => {
+                    if (closed) return;
+                    closed = true;
+                    unsubscribe();
+                    controller.close();
+                };
+                const send = (status) => {
+                    if (closed) return;
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(status)}\n\n`));
+                    // Stream ditutup setelah status akhir; klien juga menutup EventSource.
+                    if (isFinalExportStage(status.stage)) close();
+                };
+                unsubscribe = job.subscribe(send);
+                request.signal.addEventListener('abort', close);
+                send(job.status);
+            },
+            cancel() {
+                unsubscribe();
+            },
+        });
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                Connection: 'keep-alive',
+            },
+        });
+    } catch (error) {
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal membuka progres job ekspor:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
+
+export async function DELETE(request, { params }) {
+    try {
+        const job = cancelExportJob(await readJobId(params));
+        if (!job) throw new ProcessImageError('JOB_NOT_FOUND', undefined, 'jobId');
+        return NextResponse.json(job.status);
+    } catch (error) {
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal membatalkan job ekspor:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
@@ -0,0 +1,41 @@
+// File: app/api/raw-preview/route.js
+// Pratinjau untuk file RAW yang tidak punya JPEG tertanam: demosaic
+// setengah ukuran di server lalu dikirim balik sebagai byte JPEG.
+
+import { NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { decodeRawImage } from '../../../utils/exportProcessor';
+import { ProcessImageError } from '../../../utils/processImageErrors';
+import { readRawPreviewRequest } from '../../../utils/processImageRequest';
+
+const errorResponse = (error) => {
+    const body = { error: error.message, code: error.code };
+    if (error.field) body.field = error.field;
+    return NextResponse.json(body, { status: error.status });
+};
+
+export async function POST(request) {
+    try {
+        const { buffer } = await readRawPreviewRequest(request);
+        const decoded = decodeRawImage(buffer, { halfSize: true }, 'image');
+        const jpeg = await sharp(Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength), {
+            raw: { width: decoded.width, height: decoded.height, channels: 4 },
+        })
+            .jpeg({ quality: 90 })
+            .toBuffer();
+
+        return new NextResponse(jpeg, {
+            headers: {
+                'Content-Type': 'image/jpeg',
+                'Content-Length': String(jpeg.length),
+            },
+        });
+
+    } catch (error) {
+        if (error instanceof ProcessImageError) {
+            return errorResponse(error);
+        }
+        console.error("[SERVER] Gagal membuat pratinjau RAW:", error);
+        return errorResponse(new ProcessImageError('INTERNAL_ERROR'));
+    }
+}
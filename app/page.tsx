@@ -1,7 +1,23 @@
 "use client";
 
-import React, { useState, useRef, useEffect, useCallback, ChangeEvent, DragEvent } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, ChangeEvent, DragEvent, KeyboardEvent } from 'react';
 import { ImageProcessor } from '../utils/imageProcessor';
+import { readJpegMetadata } from '../utils/exif';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, ExportFormat, MAX_BATCH_ITEMS, RESIZE_PRESETS, getExportFormat, readContentDispositionFilename } from '../utils/exportOptions';
+import { EXPORT_STAGE_LABELS, ExportJobStage, ExportJobStatus, isFinalExportStage } from '../utils/exportProgress';
+import { PROCESS_IMAGE_ERROR_MESSAGES, ProcessImageErrorCode } from '../utils/processImageErrors';
+import { CUSTOM_LUT_PRESET_ID, PublicPresetManifest, findPreset, getStoreUrl } from '../utils/presetManifest';
+import { CUSTOM_LUT_MAX_BYTES, DEFAULT_LUT_INTERPOLATION, Lut, LutInterpolation, LutParseError, Vec3, createIdentityLut, mixLuts, parseCubeFile, parseCustomLut } from '../utils/lut';
+import { GrainType, randomGrainSeed } from '../utils/grain';
+import { DEFAULT_PIPELINE_SETTINGS, PipelineSettings, renderPipeline } from '../utils/pipeline';
+import { ClippingOptions, Histogram, clippedPercent, computeHistogram, createClippingOverlay, histogramPeak, readPixel } from '../utils/imageAnalysis';
+import { CurvePoint, DEFAULT_TONE_CURVES, MAX_CURVE_POINTS, ToneCurveChannel, ToneCurves, buildCurveTable } from '../utils/toneCurve';
+import { PreviewBackend, PreviewBackendKind, PreviewRenderer, createPreviewBackend } from '../utils/previewRenderer';
+import { COMPARE_MODES, CompareMode, CompareView, FIT_VIEW, clampView, panView, viewToImage, viewTransform, visibleRegion, zoomViewAt } from '../utils/compareView';
+import { PhotoEdit, RECIPE_STORAGE_KEY, RECIPE_URL_PARAM, RecipeParseError, decodeRecipeParam, encodeRecipeParam, parseRecipe, serializeRecipe } from '../utils/editRecipe';
+import { DEFAULT_LUT_EXPORT_SIZE, LUT_EXPORT_SIZES, LutExportSize } from '../utils/lutExport';
+import { EditHistory, createHistory, pushHistory, redoHistory, undoHistory } from '../utils/editHistory';
+import { License, isPresetUnlocked } from '../utils/license';
 
 // Custom hook for debouncing a value
 function useDebounce<T>(value: T, delay: number): T {
@@ -17,76 +33,258 @@ function useDebounce<T>(value: T, delay: number): T {
     return debouncedValue;
 }
 
-// Tipe untuk objek LUT (Look-Up Table)
-interface Lut {
-    size: number;
-    data: Uint8ClampedArray;
+const interpolationOptions: { value: LutInterpolation; label: string }[] = [
+    { value: 'tetrahedral', label: 'Tetrahedral (paling akurat)' },
+    { value: 'trilinear', label: 'Trilinear' },
+    { value: 'nearest', label: 'Nearest (paling cepat)' },
+];
+
+interface BatchItem {
+    id: string;
+    name: string;
+    preview: Blob;
+    fullRes: Blob;
+    thumbnailUrl: string;
+    hasGps: boolean;
+    edit: PhotoEdit;
 }
 
-// Struktur data baru untuk grup preset
-const presetGroups = [
-    {
-        label: "Film Preset",
-        options: [
-            { value: 'Film10.cube', label: 'Film 10' },
-        ],
-    },
-    {
-        label: "Signature Preset",
-        options: [
-            { value: 'Misty.cube', label: 'Misty' },
-        ],
-    }
-];
+type ExportScope = 'current' | 'all' | 'selected';
 
-const parseCubeFileForPreview = async (url: string): Promise<Lut | null> => {
-    try {
-        const response = await fetch(url);
-        if (!response.ok) throw new Error(`Gagal mengambil ${url}`);
-        const text = await response.text();
-        const lines = text.split('\n');
-        let size = 0;
-        const lutData: number[] = [];
-
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (!trimmedLine || trimmedLine.startsWith('#')) continue;
-            if (trimmedLine.startsWith('LUT_3D_SIZE')) {
-                size = parseInt(trimmedLine.split(' ')[1], 10);
-            } else {
-                const [r, g, b] = trimmedLine.split(/\s+/).map(Number);
-                if (!isNaN(r) && !isNaN(g) && !isNaN(b)) {
-                    lutData.push(r * 255, g * 255, b * 255, 255);
-                }
-            }
-        }
-        if (size === 0) return null;
-        return { size, data: new Uint8ClampedArray(lutData) };
-    } catch (error) {
-        console.error("Gagal mem-parsing file .cube untuk pratinjau:", error);
-        // Fallback to an identity LUT in case of an error loading the LUT file
-        const size = 32;
-        const identityLutData = [];
-        for (let b = 0; b < size; b++) for (let g = 0; g < size; g++) for (let r = 0; r < size; r++) {
-            identityLutData.push((r / (size - 1)) * 255, (g / (size - 1)) * 255, (b / (size - 1)) * 255, 255);
-        }
-        return { size, data: new Uint8ClampedArray(identityLutData) };
+// Pola grain milik masing-masing foto, jadi tidak ikut dibandingkan.
+const isSameEdit = (a: PhotoEdit, b: PhotoEdit): boolean =>
+    a.presetId === b.presetId &&
+    a.blendPresetId === b.blendPresetId &&
+    (Object.keys(a.settings) as (keyof PipelineSettings)[]).every(key => (
+        key === 'grainSeed' ||
+        (key === 'curves' ? JSON.stringify(a.settings.curves) === JSON.stringify(b.settings.curves) : a.settings[key] === b.settings[key])
+    ));
+
+const usesCustomLut = (edit: PhotoEdit): boolean =>
+    edit.presetId === CUSTOM_LUT_PRESET_ID || (edit.blendPresetId === CUSTOM_LUT_PRESET_ID && edit.settings.blend > 0);
+
+const parseCubeFileForPreview = async (url: string): Promise<Lut> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Gagal mengambil ${url}`);
+    return parseCubeFile(await response.text());
+};
+
+// LUT preset di-parse sekali per URL, dipakai bersama oleh pratinjau dan grid
+// thumbnail. Yang gagal dibuang dari cache agar bisa dicoba lagi.
+const previewLutCache = new Map<string, Promise<Lut>>();
+
+const loadPreviewLut = (url: string): Promise<Lut> => {
+    let pending = previewLutCache.get(url);
+    if (!pending) {
+        pending = parseCubeFileForPreview(url);
+        pending.catch(() => previewLutCache.delete(url));
+        previewLutCache.set(url, pending);
     }
+    return pending;
+};
+
+// Foto aktif diperkecil sekali; semua thumbnail preset dirender dari sini.
+const createThumbnailSource = (image: HTMLCanvasElement, maxEdge = 96): ImageData | null => {
+    const ratio = Math.min(1, maxEdge / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * ratio));
+    canvas.height = Math.max(1, Math.round(image.height * ratio));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Thumbnail preset: hanya LUT (tanpa slider) di atas salinan sumber kecil.
+const renderLutThumbnail = (source: ImageData, lut: Lut): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return '';
+    const imageData = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+    renderPipeline(imageData, { ...DEFAULT_PIPELINE_SETTINGS, grain: 0 }, lut);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.8);
 };
 
-const applyLUTForPreview = (lut: Lut, r: number, g: number, b: number): [number, number, number] => {
-    const size = lut.size;
-    const maxIndex = size - 1;
-    const rIndex = Math.round((r / 255) * maxIndex);
-    const gIndex = Math.round((g / 255) * maxIndex);
-    const bIndex = Math.round((b / 255) * maxIndex);
-    const lutIndex = bIndex * size * size + gIndex * size + rIndex;
-    const baseIdx = lutIndex * 4;
-    const lutData = lut.data;
-    if (baseIdx + 2 >= lutData.length) return [r, g, b];
-    return [lutData[baseIdx], lutData[baseIdx + 1], lutData[baseIdx + 2]];
+// Jumlah kolom grid preset, untuk navigasi panah atas/bawah.
+const PRESET_GRID_COLUMNS = 3;
+
+// Jeda sebelum pemantau progres ekspor mencoba lagi (job belum dibuat server).
+const PROGRESS_RETRY_MS = 500;
+
+// Posisi pointer → titik 0-1 di dalam panel; mode berdampingan punya dua panel.
+const toPanelPoint = (rect: DOMRect, mode: CompareMode, clientX: number, clientY: number): [number, number] => {
+    const x = (clientX - rect.left) / rect.width;
+    const y = (clientY - rect.top) / rect.height;
+    if (mode !== 'side-by-side') return [x, y];
+    return [x < 0.5 ? x * 2 : x * 2 - 1, y];
+};
+
+// Lebar satu panel dalam piksel layar (device pixel).
+const measurePanelWidth = (container: HTMLElement, mode: CompareMode) => {
+    const { width } = container.getBoundingClientRect();
+    return (mode === 'side-by-side' ? width / 2 : width) * window.devicePixelRatio;
 };
 
+const compareViewKey = (mode: CompareMode, view: CompareView) => `${mode}:${view.zoom}:${view.centerX}:${view.centerY}`;
+
+const formatProbe = ([r, g, b]: Vec3) => `R${Math.round(r)} G${Math.round(g)} B${Math.round(b)}`;
+
+// Histogram RGB (bertumpuk, mode screen) dengan garis luma di atasnya.
+function HistogramChart({ histogram, label }: { histogram: Histogram | null; label: string }) {
+    const paths = useMemo(() => {
+        if (!histogram) return null;
+        const peak = histogramPeak(histogram);
+        const heightOf = (count: number) => 100 - Math.min(1, count / peak) * 100;
+        const area = (bins: Uint32Array) => `M0,100 ${Array.from(bins, (count, i) => `L${i},${heightOf(count)}`).join(' ')} L255,100 Z`;
+        return {
+            red: area(histogram.red),
+            green: area(histogram.green),
+            blue: area(histogram.blue),
+            luma: Array.from(histogram.luma, (count, i) => `${i === 0 ? 'M' : 'L'}${i},${heightOf(count)}`).join(' '),
+        };
+    }, [histogram]);
+    const clipped = histogram ? clippedPercent(histogram) : null;
+
+    return (
+        <div className="flex-1 min-w-0">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{label}</span>
+                {clipped && (
+                    <span title="Piksel terpotong di shadow / highlight">
+                        ▼ {clipped.shadows.toFixed(1)}% · ▲ {clipped.highlights.toFixed(1)}%
+                    </span>
+                )}
+            </div>
+            <svg viewBox="0 0 255 100" preserveAspectRatio="none" className="w-full h-16 bg-gray-900 rounded-md">
+                {paths && (
+                    <>
+                        <g style={{ mixBlendMode: 'screen' }}>
+                            <path d={paths.red} fill="rgb(239 68 68 / 0.8)" />
+                            <path d={paths.green} fill="rgb(34 197 94 / 0.8)" />
+                            <path d={paths.blue} fill="rgb(59 130 246 / 0.8)" />
+                        </g>
+                        <path d={paths.luma} fill="none" stroke="white" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                    </>
+                )}
+            </svg>
+        </div>
+    );
+}
+
+const CURVE_CHANNEL_OPTIONS: { value: ToneCurveChannel; label: string; color: string }[] = [
+    { value: 'luma', label: 'Luma', color: '#374151' },
+    { value: 'red', label: 'Merah', color: '#dc2626' },
+    { value: 'green', label: 'Hijau', color: '#16a34a' },
+    { value: 'blue', label: 'Biru', color: '#2563eb' },
+];
+
+// Editor kurva tone: klik area kosong menambah titik, seret untuk memindah,
+// klik ganda menghapus titik (kecuali ujung kiri/kanan).
+function ToneCurveEditor({ curves, onChange }: { curves: ToneCurves; onChange: (curves: ToneCurves) => void }) {
+    const [channel, setChannel] = useState<ToneCurveChannel>('luma');
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const points = curves[channel];
+    const color = CURVE_CHANNEL_OPTIONS.find(option => option.value === channel)?.color;
+    const path = useMemo(
+        () => Array.from(buildCurveTable(points), (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' '),
+        [points],
+    );
+
+    const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+    // Koordinat layar → titik kurva 0-255 (sumbu y dibalik).
+    const toCurvePoint = (clientX: number, clientY: number): CurvePoint => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        const x = Math.round(Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * 255);
+        const y = Math.round(Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)) * 255);
+        return [x, 255 - y];
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const [x, y] = toCurvePoint(e.clientX, e.clientY);
+        // Titik terdekat dalam radius ~8 unit kurva ikut terpilih.
+        let index = points.findIndex(([px, py]) => Math.abs(px - x) <= 8 && Math.abs(py - y) <= 8);
+        if (index === -1) {
+            if (points.length >= MAX_CURVE_POINTS || points.some(([px]) => px === x)) return;
+            const next = [...points, [x, y] as CurvePoint].sort((a, b) => a[0] - b[0]);
+            index = next.findIndex(([px]) => px === x);
+            setPoints(next);
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragIndex(index);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (dragIndex === null) return;
+        const [x, y] = toCurvePoint(e.clientX, e.clientY);
+        // Titik tidak boleh melewati tetangganya agar input tetap naik.
+        const minX = dragIndex > 0 ? points[dragIndex - 1][0] + 1 : 0;
+        const maxX = dragIndex < points.length - 1 ? points[dragIndex + 1][0] - 1 : 255;
+        const next = points.slice();
+        next[dragIndex] = [Math.max(minX, Math.min(maxX, x)), y];
+        setPoints(next);
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        const [x, y] = toCurvePoint(e.clientX, e.clientY);
+        const index = points.findIndex(([px, py]) => Math.abs(px - x) <= 8 && Math.abs(py - y) <= 8);
+        if (index > 0 && index < points.length - 1) setPoints(points.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">Kurva Tone</span>
+                <button
+                    onClick={() => setPoints(DEFAULT_TONE_CURVES[channel])}
+                    className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+                >
+                    Reset kurva
+                </button>
+            </div>
+            <div className="flex gap-1 mb-2">
+                {CURVE_CHANNEL_OPTIONS.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => setChannel(option.value)}
+                        className={`flex-1 text-xs font-semibold py-1 rounded-md ${
+                            channel === option.value ? 'bg-white shadow' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                        }`}
+                        style={channel === option.value ? { color: option.color } : undefined}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <svg
+                ref={svgRef}
+                viewBox="0 0 255 255"
+                className="w-full aspect-square bg-white border border-gray-300 rounded-md touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragIndex(null)}
+                onDoubleClick={handleDoubleClick}
+            >
+                {[64, 128, 191].map(v => (
+                    <g key={v} stroke="#e5e7eb" strokeWidth={1}>
+                        <line x1={v} y1={0} x2={v} y2={255} />
+                        <line x1={0} y1={v} x2={255} y2={v} />
+                    </g>
+                ))}
+                <line x1={0} y1={255} x2={255} y2={0} stroke="#d1d5db" strokeDasharray="4 4" />
+                <path d={path} fill="none" stroke={color} strokeWidth={2} />
+                {points.map(([x, y], index) => (
+                    <circle key={index} cx={x} cy={255 - y} r={5} fill="white" stroke={color} strokeWidth={2} />
+                ))}
+            </svg>
+            <p className="text-xs text-gray-500 mt-1">Klik untuk menambah titik, seret untuk mengubah, klik ganda untuk menghapus.</p>
+        </div>
+    );
+}
 
 export default function App() {
     // Refs
@@ -94,197 +292,905 @@ export default function App() {
     const beforeCanvasRef = useRef<HTMLCanvasElement>(null);
     const afterCanvasRef = useRef<HTMLCanvasElement>(null);
     const sliderContainerRef = useRef<HTMLDivElement>(null);
-    const isRenderingRef = useRef(false);
+    const clippingCanvasRef = useRef<HTMLCanvasElement>(null);
+    const analysisTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Potongan resolusi penuh saat zoom melewati resolusi pratinjau
+    const detailBeforeCanvasRef = useRef<HTMLCanvasElement>(null);
+    const detailAfterCanvasRef = useRef<HTMLCanvasElement>(null);
+    const detailRendererRef = useRef<PreviewRenderer | null>(null);
+    const fullResBitmapRef = useRef<{ source: Blob; bitmap: Promise<ImageBitmap | null> } | null>(null);
+    const gestureRef = useRef<{ pointers: Map<number, { x: number; y: number }>; pinchDistance: number | null }>({ pointers: new Map(), pinchDistance: null });
+    const previewRendererRef = useRef<PreviewBackend | null>(null);
+    const previewMaxEdgeRef = useRef<number | null>(null);
+    const customLutInputRef = useRef<HTMLInputElement>(null);
+    const recipeInputRef = useRef<HTMLInputElement>(null);
+    const presetGridRef = useRef<HTMLDivElement>(null);
+    const thumbnailCacheRef = useRef<{ source: ImageData | null; license: License | null; byId: Map<string, string> }>({ source: null, license: null, byId: new Map() });
 
     // State
-    const [previewImage, setPreviewImage] = useState<HTMLImageElement | null>(null);
-    const [fullResImageSrc, setFullResImageSrc] = useState<string | null>(null);
+    const [previewImage, setPreviewImage] = useState<HTMLCanvasElement | null>(null);
+    const [fullResImage, setFullResImage] = useState<Blob | null>(null);
     const [activeLut, setActiveLut] = useState<Lut | null>(null);
-    const [activeCategory, setActiveCategory] = useState<string>(presetGroups[0].label);
-    const [selectedPreset, setSelectedPreset] = useState<string>(presetGroups[0].options[0].value);
+    // LUT .cube milik pengguna; file aslinya ikut dikirim saat ekspor HD
+    const [customLut, setCustomLut] = useState<{ name: string; file: File; lut: Lut } | null>(null);
+    const [customLutThumbnail, setCustomLutThumbnail] = useState<string | null>(null);
+    // Thumbnail grid preset per id, dirender dari foto aktif
+    const [presetThumbnails, setPresetThumbnails] = useState<Record<string, string>>({});
+    const [presetManifest, setPresetManifest] = useState<PublicPresetManifest | null>(null);
+    const [activeCategory, setActiveCategory] = useState<string | null>(null);
+    const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
+    const [blendPresetId, setBlendPresetId] = useState<string | null>(null);
+    const [blendLut, setBlendLut] = useState<Lut | null>(null);
+    // Lisensi preset berbayar dari cookie (lihat /api/license).
+    const [license, setLicense] = useState<License | null>(null);
+    const [licenseKeyInput, setLicenseKeyInput] = useState('');
+    const [isVerifyingLicense, setIsVerifyingLicense] = useState(false);
     const [isLutLoading, setIsLutLoading] = useState<boolean>(false);
     const [isCanvasBusy, setIsCanvasBusy] = useState<boolean>(false);
     const [lastChangedSlider, setLastChangedSlider] = useState<string | null>(null);
-    const [buyLink, setBuyLink] = useState<string>('https://masarif.id');
     const [fileProcessingMessage, setFileProcessingMessage] = useState<string | null>(null);
     const [isProcessingFile, setIsProcessingFile] = useState<boolean>(false);
+    const [sourceHasGps, setSourceHasGps] = useState<boolean>(false);
+    const [stripGps, setStripGps] = useState<boolean>(false);
+    const [sourceFileName, setSourceFileName] = useState<string>('foto');
+
+    // Batch: semua foto yang diunggah, foto yang sedang diedit, dan pilihan untuk "Terapkan"/ekspor
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+    const [activeItemId, setActiveItemId] = useState<string | null>(null);
+    const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+    const [exportScope, setExportScope] = useState<ExportScope>('current');
+
+    // Opsi ekspor HD
+    const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+    const [lutExportSize, setLutExportSize] = useState<LutExportSize>(DEFAULT_LUT_EXPORT_SIZE);
+    const [isExportingLut, setIsExportingLut] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_OPTIONS.format);
+    const [exportQuality, setExportQuality] = useState<number>(DEFAULT_EXPORT_OPTIONS.quality);
+    const [exportResize, setExportResize] = useState<string>(RESIZE_PRESETS[0].id);
+    const [filenameTemplate, setFilenameTemplate] = useState<string>(DEFAULT_EXPORT_OPTIONS.filenameTemplate);
 
     // UI states (update instantly)
     const [exposure, setExposure] = useState<number>(0);
     const [whiteBalance, setWhiteBalance] = useState<number>(0);
     const [highlights, setHighlights] = useState<number>(0);
     const [shadows, setShadows] = useState<number>(0);
+    const [tint, setTint] = useState<number>(0);
+    const [whites, setWhites] = useState<number>(0);
+    const [blacks, setBlacks] = useState<number>(0);
+    const [contrast, setContrast] = useState<number>(0);
+    const [saturation, setSaturation] = useState<number>(0);
+    const [vibrance, setVibrance] = useState<number>(0);
+    const [curves, setCurves] = useState<ToneCurves>(DEFAULT_TONE_CURVES);
     const [grain, setGrain] = useState<number>(10);
+    const [grainSize, setGrainSize] = useState<number>(DEFAULT_PIPELINE_SETTINGS.grainSize);
+    const [grainType, setGrainType] = useState<GrainType>(DEFAULT_PIPELINE_SETTINGS.grainType);
+    const [grainSeed, setGrainSeed] = useState<number>(DEFAULT_PIPELINE_SETTINGS.grainSeed);
+    const [interpolation, setInterpolation] = useState<LutInterpolation>(DEFAULT_LUT_INTERPOLATION);
+    const [intensity, setIntensity] = useState<number>(DEFAULT_PIPELINE_SETTINGS.intensity);
+    const [blend, setBlend] = useState<number>(DEFAULT_PIPELINE_SETTINGS.blend);
     
-    // Debounced states (for triggering canvas render)
-    const debouncedExposure = useDebounce(exposure, 200);
-    const debouncedWhiteBalance = useDebounce(whiteBalance, 200);
-    const debouncedHighlights = useDebounce(highlights, 200);
-    const debouncedShadows = useDebounce(shadows, 200);
-    const debouncedGrain = useDebounce(grain, 200);
+    // Debounced states (for triggering canvas render). Pratinjau GPU cukup
+    // cepat untuk dirender di setiap perubahan slider.
+    const [previewBackendKind, setPreviewBackendKind] = useState<PreviewBackendKind>('cpu');
+    const renderDelay = previewBackendKind === 'gpu' ? 0 : 200;
+    const debouncedExposure = useDebounce(exposure, renderDelay);
+    const debouncedWhiteBalance = useDebounce(whiteBalance, renderDelay);
+    const debouncedHighlights = useDebounce(highlights, renderDelay);
+    const debouncedShadows = useDebounce(shadows, renderDelay);
+    const debouncedTint = useDebounce(tint, renderDelay);
+    const debouncedWhites = useDebounce(whites, renderDelay);
+    const debouncedBlacks = useDebounce(blacks, renderDelay);
+    const debouncedContrast = useDebounce(contrast, renderDelay);
+    const debouncedSaturation = useDebounce(saturation, renderDelay);
+    const debouncedVibrance = useDebounce(vibrance, renderDelay);
+    const debouncedCurves = useDebounce(curves, renderDelay);
+    const debouncedGrain = useDebounce(grain, renderDelay);
+    const debouncedGrainSize = useDebounce(grainSize, renderDelay);
+    const debouncedIntensity = useDebounce(intensity, renderDelay);
+    // Campuran preset membuat LUT baru (bake), jadi selalu ditunda sebentar.
+    const debouncedBlend = useDebounce(blend, 200);
+
+    // Piksel canvas sebelum/sesudah untuk histogram, overlay clipping dan probe
+    const [beforeImageData, setBeforeImageData] = useState<ImageData | null>(null);
+    const [afterImageData, setAfterImageData] = useState<ImageData | null>(null);
+    const [showHistogram, setShowHistogram] = useState(true);
+    const [clipping, setClipping] = useState<ClippingOptions>({ highlights: false, shadows: false });
+    const [pixelProbe, setPixelProbe] = useState<{ before: Vec3; after: Vec3 } | null>(null);
+    const beforeHistogram = useMemo(() => (beforeImageData ? computeHistogram(beforeImageData) : null), [beforeImageData]);
+    const afterHistogram = useMemo(() => (afterImageData ? computeHistogram(afterImageData) : null), [afterImageData]);
 
     const [isProcessing, setIsProcessing] = useState(false);
     const [sliderPosition, setSliderPosition] = useState(50);
     const [isDragging, setIsDragging] = useState(false);
+    const [compareMode, setCompareMode] = useState<CompareMode>('wipe');
+    const [compareView, setCompareView] = useState<CompareView>(FIT_VIEW);
+    const [isHoldingBefore, setIsHoldingBefore] = useState(false);
+    // Tampilan (compareViewKey) yang potongan resolusi penuhnya sudah siap
+    const [detailViewKey, setDetailViewKey] = useState<string | null>(null);
+    const debouncedCompareView = useDebounce(compareView, 250);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
     const [processedImageUrl, setProcessedImageUrl] = useState<string | null>(null);
+    const [processedFilename, setProcessedFilename] = useState<string>('hasil_HD_by_masarif_id.jpg');
+    const [processedMime, setProcessedMime] = useState<string>('image/jpeg');
     const [isProcessComplete, setIsProcessComplete] = useState(false);
     const [progress, setProgress] = useState(0);
+    const [exportStage, setExportStage] = useState<ExportJobStage>('queued');
+    // Job ekspor yang sedang berjalan, untuk tombol Batalkan.
+    const exportJobRef = useRef<{ jobId: string; controller: AbortController } | null>(null);
+
+    // Efek untuk memuat katalog preset dari manifest
+    useEffect(() => {
+        const loadManifest = async () => {
+            try {
+                const response = await fetch('/api/presets');
+                if (!response.ok) throw new Error('Gagal memuat daftar preset.');
+                const manifest: PublicPresetManifest = await response.json();
+                setPresetManifest(manifest);
+                const firstCategory = manifest.categories.find(group => group.presets.length > 0);
+                if (firstCategory) {
+                    setActiveCategory(firstCategory.id);
+                    setSelectedPreset(firstCategory.presets[0].id);
+                }
+            } catch (error) {
+                console.error("Gagal memuat manifest preset:", error);
+                setErrorMessage("Gagal memuat daftar preset.");
+                setTimeout(() => setErrorMessage(null), 5000);
+            }
+        };
+        loadManifest();
+    }, []);
+
+    // LUT pratinjau preset berbayar bergantung pada lisensi; cache dikosongkan
+    // agar versi lengkapnya diambil ulang.
+    const applyLicense = useCallback((next: License | null) => {
+        previewLutCache.clear();
+        setLicense(next);
+    }, []);
+
+    useEffect(() => {
+        fetch('/api/license')
+            .then(response => (response.ok ? response.json() : { license: null }))
+            .then((data: { license: License | null }) => { if (data.license) applyLicense(data.license); })
+            .catch(error => console.error("Gagal memeriksa lisensi:", error));
+    }, [applyLicense]);
 
     // Efek untuk memuat LUT
     useEffect(() => {
+        if (selectedPreset === CUSTOM_LUT_PRESET_ID) {
+            if (customLut) setActiveLut(customLut.lut);
+            return;
+        }
+        if (!presetManifest || !selectedPreset) return;
+        const preset = findPreset(presetManifest, selectedPreset)?.preset;
+        if (!preset) return;
+        // Navigasi cepat di grid bisa menyalip muatan sebelumnya.
+        let cancelled = false;
         const loadLutForPreview = async () => {
             setIsLutLoading(true);
             try {
-                const lut = await parseCubeFileForPreview(`/${selectedPreset}`);
-                setActiveLut(lut);
+                const lut = await loadPreviewLut(preset.lutUrl);
+                if (!cancelled) setActiveLut(lut);
             } catch (error) {
-                console.error("Gagal memuat LUT:", error);
+                if (cancelled) return;
+                console.error("Gagal mem-parsing file .cube untuk pratinjau:", error);
+                if (error instanceof LutParseError) {
+                    setErrorMessage(`Preset ${preset.label} tidak valid. ${error.message}`);
+                    setTimeout(() => setErrorMessage(null), 5000);
+                }
+                // Fallback to an identity LUT in case of an error loading the LUT file
+                setActiveLut(createIdentityLut());
             } finally {
-                setIsLutLoading(false);
+                if (!cancelled) setIsLutLoading(false);
             }
         };
         loadLutForPreview();
-    }, [selectedPreset]);
+        return () => { cancelled = true; };
+    }, [presetManifest, selectedPreset, customLut, license]);
+
+    // LUT preset kedua untuk dicampur
+    useEffect(() => {
+        if (!blendPresetId) {
+            setBlendLut(null);
+            return;
+        }
+        if (blendPresetId === CUSTOM_LUT_PRESET_ID) {
+            setBlendLut(customLut?.lut ?? null);
+            return;
+        }
+        const preset = presetManifest ? findPreset(presetManifest, blendPresetId)?.preset : null;
+        if (!preset) return;
+        let cancelled = false;
+        loadPreviewLut(preset.lutUrl)
+            .then(lut => { if (!cancelled) setBlendLut(lut); })
+            .catch(error => {
+                console.error("Gagal memuat preset kedua untuk dicampur:", error);
+                if (!cancelled) setBlendLut(null);
+            });
+        return () => { cancelled = true; };
+    }, [presetManifest, blendPresetId, customLut, license]);
+
+    // LUT yang benar-benar dipakai pratinjau: preset utama, atau campurannya
+    // dengan preset kedua (sama dengan blendPresets di server).
+    const previewLut = useMemo(
+        () => (activeLut && blendLut && debouncedBlend > 0 ? mixLuts(activeLut, blendLut, debouncedBlend / 100) : activeLut),
+        [activeLut, blendLut, debouncedBlend],
+    );
+
+    // Sumber kecil bersama untuk semua thumbnail preset
+    const thumbnailSource = useMemo(() => (previewImage ? createThumbnailSource(previewImage) : null), [previewImage]);
+
+    useEffect(() => {
+        setCustomLutThumbnail(customLut && thumbnailSource ? renderLutThumbnail(thumbnailSource, customLut.lut) : null);
+    }, [customLut, thumbnailSource]);
+
+    // Thumbnail kategori aktif dirender satu per satu (dengan jeda) agar UI
+    // tetap responsif; yang sudah ada tidak dirender ulang.
+    useEffect(() => {
+        // Cache hanya berlaku untuk satu foto dan satu lisensi.
+        if (thumbnailCacheRef.current.source !== thumbnailSource || thumbnailCacheRef.current.license !== license) {
+            thumbnailCacheRef.current = { source: thumbnailSource, license, byId: new Map() };
+        }
+        const cache = thumbnailCacheRef.current.byId;
+        setPresetThumbnails(Object.fromEntries(cache));
+        const presets = presetManifest?.categories.find(group => group.id === activeCategory)?.presets ?? [];
+        if (!thumbnailSource || presets.length === 0) return;
+        let cancelled = false;
+        const renderMissing = async () => {
+            for (const preset of presets) {
+                if (cancelled) return;
+                if (cache.has(preset.id)) continue;
+                try {
+                    const lut = await loadPreviewLut(preset.lutUrl);
+                    if (cancelled) return;
+                    cache.set(preset.id, renderLutThumbnail(thumbnailSource, lut));
+                    setPresetThumbnails(Object.fromEntries(cache));
+                } catch (error) {
+                    console.error(`Gagal membuat thumbnail ${preset.label}:`, error);
+                }
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        };
+        renderMissing();
+        return () => { cancelled = true; };
+    }, [presetManifest, activeCategory, thumbnailSource, license]);
+
+    // Preset berbayar yang belum dibeli: pratinjau kasar, ekspor ber-watermark.
+    const isPresetLocked = (presetId: string | null): boolean => {
+        const preset = presetManifest && presetId ? findPreset(presetManifest, presetId)?.preset : null;
+        return !!preset?.paid && !isPresetUnlocked(license, preset.id);
+    };
+    const hasPaidPresets = !!presetManifest?.categories.some(category => category.presets.some(preset => preset.paid));
+
+    const buyLink = presetManifest ? getStoreUrl(presetManifest, selectedPreset) : 'https://masarif.id';
+
+
+    // Renderer pratinjau (WebGL2 bila ada, selain itu Web Worker) selama halaman terbuka
+    useEffect(() => {
+        const { backend, kind, maxPreviewEdge } = createPreviewBackend();
+        previewRendererRef.current = backend;
+        previewMaxEdgeRef.current = maxPreviewEdge;
+        setPreviewBackendKind(kind);
+        return () => {
+            backend.dispose();
+            previewRendererRef.current = null;
+        };
+    }, []);
+
+    // Gambar "sebelum" dan sumber piksel worker hanya berubah saat foto berganti
+    useEffect(() => {
+        const beforeCanvas = beforeCanvasRef.current;
+        const afterCanvas = afterCanvasRef.current;
+        if (!previewImage || !beforeCanvas || !afterCanvas) return;
+        const width = previewImage.width;
+        const height = previewImage.height;
+        beforeCanvas.width = afterCanvas.width = width;
+        beforeCanvas.height = afterCanvas.height = height;
+        const ctxBefore = beforeCanvas.getContext('2d');
+        ctxBefore?.drawImage(previewImage, 0, 0, width, height);
+        setBeforeImageData(ctxBefore?.getImageData(0, 0, width, height) ?? null);
+        setAfterImageData(null);
+        setCompareView(FIT_VIEW);
+        setDetailViewKey(null);
+        previewRendererRef.current?.setSource(previewImage);
+    }, [previewImage]);
+
+    useEffect(() => {
+        if (previewLut) previewRendererRef.current?.setLut(previewLut);
+    }, [previewLut]);
 
-    // Effect to update buyLink based on activeCategory
+    useEffect(() => () => {
+        if (analysisTimerRef.current) clearTimeout(analysisTimerRef.current);
+    }, []);
+
+    // Overlay clipping digambar di canvas terpisah di atas gambar "sesudah".
     useEffect(() => {
-        if (activeCategory === "Film Preset") {
-            setBuyLink("https://store.masarif.id/film");
-        } else if (activeCategory === "Signature Preset") {
-            setBuyLink("https://store.masarif.id/preset");
-        } else {
-            setBuyLink("https://masarif.id"); // Default or fallback link
+        const canvas = clippingCanvasRef.current;
+        if (!canvas) return;
+        if (!afterImageData || (!clipping.highlights && !clipping.shadows)) {
+            canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+            return;
+        }
+        const { width, height } = afterImageData;
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.putImageData(new ImageData(createClippingOverlay(afterImageData, clipping), width, height), 0, 0);
+    }, [afterImageData, clipping]);
+
+    // Satu pointer menggeser gambar yang diperbesar, dua pointer (pinch) zoom.
+    // Di mode "Tahan", menekan gambar menampilkan versi sebelum.
+    const handleComparePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        gestureRef.current.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        gestureRef.current.pinchDistance = null;
+        if (compareMode === 'hold') setIsHoldingBefore(true);
+    };
+
+    const handleComparePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const gesture = gestureRef.current;
+        const last = gesture.pointers.get(e.pointerId);
+        if (last) {
+            gesture.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            if (gesture.pointers.size === 1) {
+                const panelWidth = compareMode === 'side-by-side' ? rect.width / 2 : rect.width;
+                setCompareView(view => panView(view, (e.clientX - last.x) / panelWidth, (e.clientY - last.y) / rect.height));
+            } else if (gesture.pointers.size === 2) {
+                const [a, b] = Array.from(gesture.pointers.values());
+                const distance = Math.hypot(a.x - b.x, a.y - b.y);
+                if (gesture.pinchDistance) {
+                    const factor = distance / gesture.pinchDistance;
+                    const [x, y] = toPanelPoint(rect, compareMode, (a.x + b.x) / 2, (a.y + b.y) / 2);
+                    setCompareView(view => zoomViewAt(view, view.zoom * factor, x, y));
+                }
+                gesture.pinchDistance = distance;
+            }
         }
-    }, [activeCategory]);
+        if (!beforeImageData || !afterImageData) return;
+        const [u, v] = viewToImage(compareView, ...toPanelPoint(rect, compareMode, e.clientX, e.clientY));
+        setPixelProbe({ before: readPixel(beforeImageData, u, v), after: readPixel(afterImageData, u, v) });
+    };
 
+    const handleComparePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        const gesture = gestureRef.current;
+        gesture.pointers.delete(e.pointerId);
+        gesture.pinchDistance = null;
+        if (gesture.pointers.size === 0) setIsHoldingBefore(false);
+    };
+
+    const previewSettings = useMemo<PipelineSettings>(() => ({
+        exposure: debouncedExposure,
+        whiteBalance: debouncedWhiteBalance,
+        tint: debouncedTint,
+        highlights: debouncedHighlights,
+        shadows: debouncedShadows,
+        whites: debouncedWhites,
+        blacks: debouncedBlacks,
+        contrast: debouncedContrast,
+        saturation: debouncedSaturation,
+        vibrance: debouncedVibrance,
+        grain: debouncedGrain,
+        grainSize: debouncedGrainSize,
+        grainType,
+        grainSeed,
+        interpolation,
+        intensity: debouncedIntensity,
+        blend: debouncedBlend,
+        curves: debouncedCurves,
+    }), [
+        debouncedExposure, debouncedWhiteBalance, debouncedTint, debouncedHighlights, debouncedShadows, debouncedWhites,
+        debouncedBlacks, debouncedContrast, debouncedSaturation, debouncedVibrance, debouncedGrain, debouncedGrainSize,
+        grainType, grainSeed, interpolation, debouncedIntensity, debouncedBlend, debouncedCurves,
+    ]);
 
     // Efek untuk merender pratinjau (sekarang menggunakan nilai debounced)
     useEffect(() => {
-        if (!previewImage || !activeLut || isLutLoading) return;
-        
+        const renderer = previewRendererRef.current;
+        if (!previewImage || !previewLut || isLutLoading || !renderer) return;
+
         setIsCanvasBusy(true);
+        renderer.render(previewSettings, {
+            onFrame: (image, pass) => {
+                const afterCanvas = afterCanvasRef.current;
+                const ctxAfter = afterCanvas?.getContext('2d');
+                if (!afterCanvas || !ctxAfter) return;
+                ctxAfter.drawImage(image, 0, 0, afterCanvas.width, afterCanvas.height);
+                // Histogram/clipping dibaca dari frame penuh setelah slider
+                // berhenti sebentar; membaca canvas besar di setiap frame GPU terlalu mahal.
+                if (pass !== 'full') return;
+                if (analysisTimerRef.current) clearTimeout(analysisTimerRef.current);
+                analysisTimerRef.current = setTimeout(() => {
+                    setAfterImageData(ctxAfter.getImageData(0, 0, afterCanvas.width, afterCanvas.height));
+                }, 150);
+            },
+            onDone: () => setIsCanvasBusy(false),
+        });
+    }, [previewImage, previewLut, previewSettings, isLutLoading]);
 
-        const processTimeout = setTimeout(() => {
-            if (isRenderingRef.current) {
-                setIsCanvasBusy(false);
-                return;
+    // Foto asli di-decode sekali per foto. null bila browser tidak bisa
+    // membacanya (RAW); zoom lalu hanya memperbesar pratinjau.
+    const loadFullResBitmap = useCallback((): Promise<ImageBitmap | null> => {
+        if (!fullResImage) return Promise.resolve(null);
+        const cached = fullResBitmapRef.current;
+        if (cached?.source === fullResImage) return cached.bitmap;
+        const bitmap = createImageBitmap(fullResImage).catch(() => null);
+        fullResBitmapRef.current = { source: fullResImage, bitmap };
+        return bitmap;
+    }, [fullResImage]);
+
+    // Bitmap foto asli bisa ratusan MB; dilepas begitu foto berganti.
+    useEffect(() => () => {
+        fullResBitmapRef.current?.bitmap.then(bitmap => bitmap?.close());
+        fullResBitmapRef.current = null;
+    }, [fullResImage]);
+
+    useEffect(() => () => detailRendererRef.current?.dispose(), []);
+
+    // Bila zoom melewati resolusi pratinjau, bagian yang terlihat dipotong dari
+    // foto asli dan dirender worker CPU dengan pipeline yang sama dengan ekspor.
+    useEffect(() => {
+        const container = sliderContainerRef.current;
+        if (!previewImage || !previewLut || isLutLoading || !container) return;
+        const panelWidth = measurePanelWidth(container, compareMode);
+        if (debouncedCompareView.zoom * panelWidth <= previewImage.width) {
+            setDetailViewKey(null);
+            return;
+        }
+        let cancelled = false;
+        const renderDetail = async () => {
+            const bitmap = await loadFullResBitmap();
+            if (cancelled || !bitmap || bitmap.width <= previewImage.width) return;
+            const region = visibleRegion(debouncedCompareView);
+            const sx = region.x * bitmap.width;
+            const sy = region.y * bitmap.height;
+            const sw = region.width * bitmap.width;
+            const sh = region.height * bitmap.height;
+            // Tidak perlu lebih tajam dari piksel layar panel.
+            const scale = Math.min(1, panelWidth / sw);
+            const crop = document.createElement('canvas');
+            crop.width = Math.max(1, Math.round(sw * scale));
+            crop.height = Math.max(1, Math.round(sh * scale));
+            crop.getContext('2d')?.drawImage(bitmap, sx, sy, sw, sh, 0, 0, crop.width, crop.height);
+
+            const beforeCanvas = detailBeforeCanvasRef.current;
+            if (beforeCanvas) {
+                beforeCanvas.width = crop.width;
+                beforeCanvas.height = crop.height;
+                beforeCanvas.getContext('2d')?.drawImage(crop, 0, 0);
             }
-            isRenderingRef.current = true;
-            
-            const beforeCanvas = beforeCanvasRef.current;
-            const afterCanvas = afterCanvasRef.current;
-            if (!beforeCanvas || !afterCanvas) {
-                isRenderingRef.current = false;
-                setIsCanvasBusy(false);
-                return;
+            const renderer = detailRendererRef.current ?? (detailRendererRef.current = new PreviewRenderer());
+            renderer.setSource(crop, { x: sx * scale, y: sy * scale, width: bitmap.width * scale, height: bitmap.height * scale });
+            renderer.setLut(previewLut);
+            renderer.render(previewSettings, {
+                onFrame: (image, pass) => {
+                    const afterCanvas = detailAfterCanvasRef.current;
+                    if (pass !== 'full' || cancelled || !afterCanvas) return;
+                    afterCanvas.width = crop.width;
+                    afterCanvas.height = crop.height;
+                    afterCanvas.getContext('2d')?.drawImage(image, 0, 0);
+                    setDetailViewKey(compareViewKey(compareMode, debouncedCompareView));
+                },
+                onDone: () => {},
+            });
+        };
+        renderDetail();
+        return () => { cancelled = true; };
+    }, [previewImage, previewLut, previewSettings, isLutLoading, debouncedCompareView, compareMode, loadFullResBitmap]);
+
+    const showDetail = detailViewKey === compareViewKey(compareMode, compareView);
+
+    // Roda mouse memperbesar di sekitar kursor. Listener native karena
+    // onWheel React pasif sehingga scroll halaman tidak bisa dicegah.
+    useEffect(() => {
+        const container = sliderContainerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+            const [x, y] = toPanelPoint(container.getBoundingClientRect(), compareMode, e.clientX, e.clientY);
+            setCompareView(view => zoomViewAt(view, view.zoom * Math.exp(-delta * 0.002), x, y));
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [previewImage, compareMode]);
+
+    // 100%: satu piksel foto asli untuk satu piksel layar.
+    const handleActualPixels = async () => {
+        const bitmap = await loadFullResBitmap();
+        const container = sliderContainerRef.current;
+        if (!container || !previewImage) return;
+        const sourceWidth = bitmap?.width ?? previewImage.width;
+        const zoom = sourceWidth / measurePanelWidth(container, compareMode);
+        setCompareView(view => clampView({ ...view, zoom }));
+    };
+
+    const currentEdit: PhotoEdit = {
+        presetId: selectedPreset,
+        blendPresetId,
+        settings: {
+            exposure, whiteBalance, tint, highlights, shadows, whites, blacks, contrast, saturation, vibrance,
+            grain, grainSize, grainType, grainSeed, interpolation, intensity, blend, curves,
+        },
+    };
+
+    const applyEdit = useCallback((edit: PhotoEdit) => {
+        const { settings } = edit;
+        setExposure(settings.exposure);
+        setWhiteBalance(settings.whiteBalance);
+        setHighlights(settings.highlights);
+        setShadows(settings.shadows);
+        setTint(settings.tint);
+        setWhites(settings.whites);
+        setBlacks(settings.blacks);
+        setContrast(settings.contrast);
+        setSaturation(settings.saturation);
+        setVibrance(settings.vibrance);
+        setCurves(settings.curves);
+        setGrain(settings.grain);
+        setGrainSize(settings.grainSize);
+        setGrainType(settings.grainType);
+        setGrainSeed(settings.grainSeed);
+        setInterpolation(settings.interpolation);
+        setIntensity(settings.intensity);
+        setBlend(settings.blend);
+        setBlendPresetId(edit.blendPresetId === CUSTOM_LUT_PRESET_ID && !customLut ? null : edit.blendPresetId);
+        if (edit.presetId === CUSTOM_LUT_PRESET_ID) {
+            if (customLut) setSelectedPreset(CUSTOM_LUT_PRESET_ID);
+            return;
+        }
+        const found = edit.presetId && presetManifest ? findPreset(presetManifest, edit.presetId) : null;
+        if (found) {
+            setActiveCategory(found.category.id);
+            setSelectedPreset(found.preset.id);
+        }
+    }, [customLut, presetManifest]);
+
+    // Riwayat undo/redo foto aktif, berisi resep ter-serialize. Perubahan
+    // slider yang beruntun digabung menjadi satu langkah lewat debounce.
+    const editKey = serializeRecipe(currentEdit);
+    const debouncedEditKey = useDebounce(editKey, 400);
+    const [editHistory, setEditHistory] = useState<EditHistory<string> | null>(null);
+    // Edit terakhir baru disimpan setelah resep awal (URL/localStorage) dipulihkan.
+    const restoredEditRef = useRef(false);
+
+    useEffect(() => {
+        setEditHistory(history => {
+            if (!history) return createHistory(debouncedEditKey);
+            return history.present === debouncedEditKey ? history : pushHistory(history, debouncedEditKey);
+        });
+        if (!restoredEditRef.current) return;
+        try {
+            localStorage.setItem(RECIPE_STORAGE_KEY, debouncedEditKey);
+        } catch {
+            // localStorage penuh atau diblokir; edit tetap jalan tanpa disimpan.
+        }
+    }, [debouncedEditKey]);
+
+    // Perubahan yang belum lewat debounce dicatat dulu agar undo tidak melompatinya.
+    const stepHistory = useCallback((step: typeof undoHistory) => {
+        if (!editHistory) return;
+        const current = editHistory.present === editKey ? editHistory : pushHistory(editHistory, editKey);
+        const next = step(current);
+        if (next === current) return;
+        setEditHistory(next);
+        applyEdit(parseRecipe(next.present));
+    }, [editHistory, editKey, applyEdit]);
+
+    // Ctrl+Z / Ctrl+Shift+Z (atau Ctrl+Y). Di kolom teks shortcut dibiarkan
+    // milik browser.
+    useEffect(() => {
+        const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement | null;
+            if (target?.tagName === 'TEXTAREA' || (target instanceof HTMLInputElement && target.type === 'text')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                stepHistory(undoHistory);
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                stepHistory(redoHistory);
             }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [stepHistory]);
+
+    // Resep diterapkan bila presetnya ada; LUT sendiri harus dimuat ulang
+    // karena filenya tidak ikut di resep.
+    const applyRecipe = useCallback((edit: PhotoEdit) => {
+        applyEdit(edit);
+        const missing = [edit.presetId, edit.settings.blend > 0 ? edit.blendPresetId : null].filter(id => (
+            id !== null && (id === CUSTOM_LUT_PRESET_ID ? !customLut : !(presetManifest && findPreset(presetManifest, id)))
+        ));
+        if (missing.length > 0) {
+            setErrorMessage(missing.includes(CUSTOM_LUT_PRESET_ID)
+                ? 'Resep memakai LUT sendiri; muat file .cube-nya lalu terapkan lagi.'
+                : `Preset ${missing.join(', ')} dari resep tidak tersedia.`);
+            setTimeout(() => setErrorMessage(null), 5000);
+        }
+    }, [applyEdit, customLut, presetManifest]);
 
-            const ctxBefore = beforeCanvas.getContext('2d', { willReadFrequently: true });
-            const ctxAfter = afterCanvas.getContext('2d');
-            if (!ctxBefore || !ctxAfter) {
-                isRenderingRef.current = false;
-                setIsCanvasBusy(false);
+    // Sekali setelah katalog preset dimuat: resep dari link (?resep=) lebih
+    // diutamakan daripada edit terakhir di localStorage.
+    useEffect(() => {
+        if (!presetManifest || restoredEditRef.current) return;
+        restoredEditRef.current = true;
+        const url = new URL(window.location.href);
+        const param = url.searchParams.get(RECIPE_URL_PARAM);
+        try {
+            if (param) {
+                url.searchParams.delete(RECIPE_URL_PARAM);
+                window.history.replaceState(null, '', url);
+                applyRecipe(decodeRecipeParam(param));
                 return;
             }
-
-            const width = previewImage.width;
-            const height = previewImage.height;
-            beforeCanvas.width = afterCanvas.width = width;
-            beforeCanvas.height = afterCanvas.height = height;
-
-            ctxBefore.drawImage(previewImage, 0, 0, width, height);
-            const imageData = ctxBefore.getImageData(0, 0, width, height);
-            const data = imageData.data;
-
-            for (let i = 0; i < data.length; i += 4) {
-                let r = data[i], g = data[i+1], b = data[i+2];
-                const expFactor = debouncedExposure * 2.55; r += expFactor; g += expFactor; b += expFactor;
-                const wbFactor = debouncedWhiteBalance * 2; r += wbFactor; b -= wbFactor;
-                const hFactor = debouncedHighlights / 100.0;
-                if (hFactor > 0) { r += (255 - r) * hFactor; g += (255 - g) * hFactor; b += (255 - b) * hFactor; }
-                else { r += r * hFactor; g += g * hFactor; b += b * hFactor; }
-                const sFactor = debouncedShadows / 100.0;
-                if (sFactor > 0) {
-                    const threshold = 128;
-                    if (r < threshold) r *= (1 + sFactor);
-                    if (g < threshold) g *= (1 + sFactor);
-                    if (b < threshold) b *= (1 + sFactor);
-                } else {
-                    r *= (1 + sFactor); g *= (1 + sFactor); b *= (1 + sFactor);
-                }
-                r = Math.max(0, Math.min(255, r)); g = Math.max(0, Math.min(255, g)); b = Math.max(0, Math.min(255, b));
-                [r, g, b] = applyLUTForPreview(activeLut, r, g, b);
-                if (debouncedGrain > 0) {
-                    const noise = (Math.random() - 0.5) * debouncedGrain;
-                    r = Math.max(0, Math.min(255, r + noise)); g = Math.max(0, Math.min(255, g + noise)); b = Math.max(0, Math.min(255, b + noise));
-                }
-                data[i] = r; data[i + 1] = g; data[i + 2] = b;
+            const stored = localStorage.getItem(RECIPE_STORAGE_KEY);
+            if (stored) applyEdit(parseRecipe(stored));
+        } catch (error) {
+            if (error instanceof RecipeParseError) {
+                setErrorMessage(`Resep tidak valid. ${error.message}`);
+                setTimeout(() => setErrorMessage(null), 5000);
+            } else {
+                console.error("Gagal memulihkan edit terakhir:", error);
             }
-            ctxAfter.putImageData(imageData, 0, 0);
-            isRenderingRef.current = false;
-            setIsCanvasBusy(false);
-        }, 20);
+        }
+    }, [presetManifest, applyEdit, applyRecipe]);
 
-        return () => clearTimeout(processTimeout);
+    const handleCopyRecipeLink = async () => {
+        const url = new URL(window.location.href);
+        url.searchParams.set(RECIPE_URL_PARAM, encodeRecipeParam(currentEdit));
+        try {
+            await navigator.clipboard.writeText(url.toString());
+            setFileProcessingMessage('Link resep disalin.');
+        } catch {
+            window.prompt('Salin link resep ini:', url.toString());
+        }
+        setTimeout(() => setFileProcessingMessage(null), 2000);
+    };
 
-    }, [previewImage, activeLut, debouncedExposure, debouncedWhiteBalance, debouncedHighlights, debouncedShadows, debouncedGrain, isLutLoading]);
+    const handleDownloadRecipe = () => {
+        const blob = new Blob([JSON.stringify(JSON.parse(editKey), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `resep_${currentEdit.presetId ?? 'edit'}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
 
-    // Enhanced file handler with format support
-    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const handleUnlockLicense = async () => {
+        if (!licenseKeyInput.trim()) return;
+        setIsVerifyingLicense(true);
+        try {
+            const response = await fetch('/api/license', {
+                method: 'POST',
+                body: JSON.stringify({ key: licenseKeyInput }),
+                headers: { 'Content-Type': 'application/json' },
+            });
+            const data: { license?: License; error?: string } = await response.json().catch(() => ({}));
+            if (!response.ok || !data.license) throw new Error(data.error || 'Gagal memeriksa kode lisensi.');
+            applyLicense(data.license);
+            setLicenseKeyInput('');
+            setFileProcessingMessage('Lisensi aktif. Preset yang dibeli kini tanpa watermark.');
+            setTimeout(() => setFileProcessingMessage(null), 3000);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Gagal memeriksa kode lisensi.');
+            setTimeout(() => setErrorMessage(null), 5000);
+        } finally {
+            setIsVerifyingLicense(false);
+        }
+    };
+
+    const handleRemoveLicense = async () => {
+        await fetch('/api/license', { method: 'DELETE' }).catch(() => {});
+        applyLicense(null);
+    };
+
+    // Preset + slider saat ini di-bake server menjadi .cube (tanpa grain).
+    const handleExportLut = async () => {
+        if (!selectedPreset) return;
+        setIsExportingLut(true);
+        try {
+            const options = { presetId: selectedPreset, blendPresetId, settings: currentEdit.settings, size: lutExportSize };
+            let request: RequestInit;
+            if (customLut && usesCustomLut(currentEdit)) {
+                const formData = new FormData();
+                formData.append('options', JSON.stringify(options));
+                formData.append('lut', customLut.file, customLut.name);
+                request = { method: 'POST', body: formData };
+            } else {
+                request = { method: 'POST', body: JSON.stringify(options), headers: { 'Content-Type': 'application/json' } };
+            }
+            const response = await fetch('/api/export-lut', request);
+            if (!response.ok) {
+                const errorData: { error?: string } = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Gagal membuat LUT.');
+            }
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = readContentDispositionFilename(response.headers.get('Content-Disposition')) || `preset_edit_${lutExportSize}.cube`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Gagal membuat LUT.');
+            setTimeout(() => setErrorMessage(null), 5000);
+        } finally {
+            setIsExportingLut(false);
+        }
+    };
+
+    const handleRecipeFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (!file) return;
+        try {
+            applyRecipe(parseRecipe(await file.text()));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Gagal membaca resep.';
+            setErrorMessage(error instanceof RecipeParseError ? `Resep ${file.name} tidak valid. ${message}` : message);
+            setTimeout(() => setErrorMessage(null), 5000);
+        }
+    };
+
+    // LUT sendiri dicek di browser dengan batas yang sama seperti di server,
+    // lalu dipakai seperti preset lain.
+    const handleCustomLutChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            if (!/\.cube$/i.test(file.name)) {
+                throw new Error('Pilih file LUT berformat .cube.');
+            }
+            if (file.size > CUSTOM_LUT_MAX_BYTES) {
+                throw new Error(`File LUT terlalu besar (maksimal ${CUSTOM_LUT_MAX_BYTES / 1024 / 1024} MB).`);
+            }
+            const lut = parseCustomLut(await file.text());
+            setCustomLut({ name: file.name, file, lut });
+            setSelectedPreset(CUSTOM_LUT_PRESET_ID);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Gagal membaca file LUT.';
+            setErrorMessage(error instanceof LutParseError ? `LUT ${file.name} tidak valid. ${message}` : message);
+            setTimeout(() => setErrorMessage(null), 5000);
+        }
+    };
+
+    const showPreview = async (blob: Blob) => {
+        const img = await ImageProcessor.loadImage(blob);
+        // GPU merender pratinjau di resolusi penuh (dibatasi ukuran tekstur),
+        // jalur CPU tetap dibatasi lebar 1280px.
+        const maxGpuEdge = previewMaxEdgeRef.current;
+        const maxW = 1280;
+        const ratio = maxGpuEdge !== null
+            ? Math.min(1, maxGpuEdge / Math.max(img.width, img.height))
+            : (img.width > maxW ? maxW / img.width : 1);
+        // Canvas dipakai langsung sebagai sumber; tidak perlu diencode ulang
+        // menjadi data URL di main thread.
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(img.width * ratio);
+        canvas.height = Math.round(img.height * ratio);
+        const ctx = canvas.getContext("2d");
+        ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        setPreviewImage(canvas);
+    };
+
+    const activateItem = async (item: BatchItem) => {
+        setActiveItemId(item.id);
+        setFullResImage(item.fullRes);
+        setSourceHasGps(item.hasGps);
+        setSourceFileName(item.name);
+        applyEdit(item.edit);
+        // Riwayat undo milik masing-masing foto.
+        setEditHistory(createHistory(serializeRecipe(item.edit)));
+        await showPreview(item.preview);
+    };
+
+    const loadBatchItem = async (file: File, edit: PhotoEdit): Promise<BatchItem> => {
+        // Check file info first
+        const fileInfo = ImageProcessor.getFileInfo(file);
+        if (!fileInfo.isSupported) {
+            throw new Error(fileInfo.message || 'Format file tidak didukung');
+        }
+
+        // EXIF dibaca saat upload; orientasi diterapkan browser untuk
+        // pratinjau dan oleh server saat ekspor.
+        const isJpeg = file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name);
+        const hasGps = isJpeg && readJpegMetadata(new Uint8Array(await file.arrayBuffer())).hasGps;
+
+        const { preview, fullRes } = await ImageProcessor.loadSources(file);
+        return {
+            id: crypto.randomUUID(),
+            name: file.name,
+            preview,
+            fullRes,
+            thumbnailUrl: await ImageProcessor.createThumbnail(preview),
+            hasGps,
+            // Pola grain baru untuk setiap foto, tetap sama antara pratinjau dan ekspor.
+            edit: { ...edit, settings: { ...edit.settings, grainSeed: randomGrainSeed() } },
+        };
+    };
+
+    // Enhanced file handler with format support. Beberapa file sekaligus
+    // menjadi batch; semuanya mulai dengan preset dan slider saat ini.
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0) return;
 
         setIsProcessingFile(true);
         setFileProcessingMessage(null);
         setErrorMessage(null);
 
         try {
-            // Check file info first
-            const fileInfo = ImageProcessor.getFileInfo(file);
-            
-            if (!fileInfo.isSupported) {
-                throw new Error(fileInfo.message || 'Format file tidak didukung');
+            if (files.length > MAX_BATCH_ITEMS) {
+                throw new Error(`Maksimal ${MAX_BATCH_ITEMS} foto sekaligus.`);
             }
 
-            if (fileInfo.needsConversion && fileInfo.message) {
-                setFileProcessingMessage(fileInfo.message);
+            const items: BatchItem[] = [];
+            const failures: string[] = [];
+            for (const [index, file] of files.entries()) {
+                const fileInfo = ImageProcessor.getFileInfo(file);
+                if (files.length > 1) {
+                    setFileProcessingMessage(`Memuat foto ${index + 1} dari ${files.length}...`);
+                } else if (fileInfo.needsConversion && fileInfo.message) {
+                    setFileProcessingMessage(fileInfo.message);
+                }
+                try {
+                    items.push(await loadBatchItem(file, currentEdit));
+                } catch (error) {
+                    if (files.length === 1) throw error;
+                    failures.push(file.name);
+                }
+            }
+            if (items.length === 0) {
+                throw new Error('Tidak ada foto yang bisa dibaca.');
             }
 
-            // Process the file
-            const resultSrc = await ImageProcessor.processFile(file);
-            setFullResImageSrc(resultSrc);
-            
-            const img = new Image();
-            img.onload = () => {
-                const maxW = 1280;
-                const ratio = img.width > maxW ? maxW / img.width : 1;
-                const canvas = document.createElement("canvas");
-                canvas.width = img.width * ratio;
-                canvas.height = img.height * ratio;
-                const ctx = canvas.getContext("2d");
-                ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
-                const resizedImage = new Image();
-                resizedImage.onload = () => { 
-                    setPreviewImage(resizedImage);
-                    setFileProcessingMessage(null);
-                    setIsProcessingFile(false);
-                };
-                resizedImage.src = canvas.toDataURL();
-            };
-            img.onerror = () => {
-                throw new Error('Gagal memuat gambar. File mungkin corrupt atau format tidak didukung sepenuhnya.');
-            };
-            img.src = resultSrc;
+            setBatchItems(items);
+            setSelectedItemIds([]);
+            setExportScope('current');
+            await activateItem(items[0]);
+            setFileProcessingMessage(null);
+            setIsProcessingFile(false);
+            if (failures.length > 0) {
+                setErrorMessage(`${failures.length} file dilewati: ${failures.join(', ')}`);
+                setTimeout(() => setErrorMessage(null), 5000);
+            }
 
-        } catch (error: any) {
-            setErrorMessage(error.message);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Gagal memproses file.');
             setIsProcessingFile(false);
             setFileProcessingMessage(null);
             setTimeout(() => setErrorMessage(null), 5000);
         }
     };
 
+    // Pengaturan foto yang sedang diedit disimpan dulu sebelum pindah foto.
+    const handleSelectItem = async (item: BatchItem) => {
+        if (item.id === activeItemId) return;
+        setBatchItems(items => items.map(other => (other.id === activeItemId ? { ...other, edit: currentEdit } : other)));
+        try {
+            await activateItem(item);
+        } catch (error) {
+            setErrorMessage(error instanceof Error ? error.message : 'Gagal memuat foto.');
+            setTimeout(() => setErrorMessage(null), 5000);
+        }
+    };
+
+    const toggleItemSelection = (id: string) => {
+        setSelectedItemIds(ids => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]));
+    };
+
+    // Menyalin preset & slider foto aktif ke foto lain; pola grain tiap foto tetap.
+    const applyEditToItems = (ids: string[]) => {
+        setBatchItems(items => items.map(item => (
+            ids.includes(item.id)
+                ? { ...item, edit: { ...currentEdit, settings: { ...currentEdit.settings, grainSeed: item.edit.settings.grainSeed } } }
+                : item
+        )));
+    };
+
     const handleDragOver = (e: DragEvent<HTMLDivElement>) => e.preventDefault();
     const handleDrop = (e: DragEvent<HTMLDivElement>) => {
         e.preventDefault();
@@ -297,16 +1203,17 @@ export default function App() {
     };
     
     // Handler untuk slider pembanding
-    const handleSliderMove = useCallback((clientX: number) => {
+    const handleSliderMove = useCallback((clientX: number, clientY: number) => {
         if (!isDragging || !sliderContainerRef.current) return;
         const rect = sliderContainerRef.current.getBoundingClientRect();
-        const x = Math.max(0, Math.min(clientX - rect.left, rect.width));
-        const percent = (x / rect.width) * 100;
+        const percent = compareMode === 'wipe-vertical'
+            ? (Math.max(0, Math.min(clientY - rect.top, rect.height)) / rect.height) * 100
+            : (Math.max(0, Math.min(clientX - rect.left, rect.width)) / rect.width) * 100;
         setSliderPosition(percent);
-    }, [isDragging]);
+    }, [isDragging, compareMode]);
 
     useEffect(() => {
-        const handlePointerMove = (e: PointerEvent) => handleSliderMove(e.clientX);
+        const handlePointerMove = (e: PointerEvent) => handleSliderMove(e.clientX, e.clientY);
         const handlePointerUp = () => setIsDragging(false);
         if (isDragging) {
             window.addEventListener('pointermove', handlePointerMove);
@@ -318,55 +1225,69 @@ export default function App() {
         };
     }, [isDragging, handleSliderMove]);
 
-    // Handler utama untuk memproses gambar
-    const handleProcessImage = async () => {
-        if (!fullResImageSrc || !selectedPreset) {
-            setErrorMessage("Gambar atau preset belum siap.");
-            setTimeout(() => setErrorMessage(null), 3000);
-            return;
-        }
+    const currentExportOptions = () => ({
+        format: exportFormat,
+        quality: exportQuality,
+        longEdge: RESIZE_PRESETS.find(preset => preset.id === exportResize)?.longEdge ?? null,
+        filenameTemplate,
+    });
 
+    // Upload, progres nyata lewat SSE, dan pembatalan; dipakai ekspor satu
+    // foto maupun batch. Id job dibuat di sini agar bisa dipantau (dan
+    // dibatalkan) sebelum upload selesai.
+    const runExport = async (url: string, buildForm: (jobId: string) => FormData, fallbackFilename: string) => {
+        setIsExportDialogOpen(false);
         setIsProcessing(true);
         setIsProcessComplete(false);
         setProgress(0);
+        setExportStage('queued');
         setErrorMessage(null);
 
-        // Simulasi progress bar
-        const interval = setInterval(() => {
-            setProgress(prev => {
-                if (prev >= 95) {
-                    clearInterval(interval);
-                    return prev;
-                }
-                return prev + 5;
-            });
-        }, 100);
-
-        try {
-            const payload = {
-                imageSrc: fullResImageSrc,
-                lutFile: selectedPreset,
-                settings: { exposure, whiteBalance, highlights, shadows, grain }
+        const jobId = crypto.randomUUID();
+        const controller = new AbortController();
+        exportJobRef.current = { jobId, controller };
+        // Job baru ada di server setelah upload diterima; sebelum itu (404)
+        // pemantau progres dicoba lagi.
+        const progressWatch: { events: EventSource | null; retry: ReturnType<typeof setTimeout> | null; finished: boolean } = { events: null, retry: null, finished: false };
+        const watchProgress = () => {
+            const events = new EventSource(`/api/process-image/jobs/${jobId}`);
+            events.onmessage = (e) => {
+                const status: ExportJobStatus = JSON.parse(e.data);
+                setExportStage(status.stage);
+                setProgress(status.progress);
+                if (isFinalExportStage(status.stage)) events.close();
             };
+            events.onerror = () => {
+                events.close();
+                if (!progressWatch.finished) progressWatch.retry = setTimeout(watchProgress, PROGRESS_RETRY_MS);
+            };
+            progressWatch.events = events;
+        };
+        watchProgress();
 
-            const response = await fetch('/api/process-image', {
+        try {
+            const response = await fetch(url, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload),
+                body: buildForm(jobId),
+                signal: controller.signal,
             });
-            
-            clearInterval(interval);
-            setProgress(100);
 
             if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                throw new Error(errorData.error || 'Gagal memproses di server.');
+                const errorData: { error?: string; code?: ProcessImageErrorCode; field?: string } = await response.json().catch(() => ({}));
+                // Pesan rinci dari server untuk pengaturan/preset dan foto tertentu dalam batch, selain itu pakai pesan baku per kode.
+                const detailed = errorData.code === 'INVALID_SETTINGS' || errorData.code === 'INVALID_EXPORT_OPTIONS' || errorData.code === 'PRESET_INVALID' || errorData.code === 'INVALID_LUT'
+                    || /^(items|images)\[/.test(errorData.field ?? '');
+                const mapped = errorData.code && !detailed ? PROCESS_IMAGE_ERROR_MESSAGES[errorData.code] : undefined;
+                throw new Error(mapped || errorData.error || 'Gagal memproses di server.');
             }
 
-            const result = await response.json();
+            const result = await response.blob();
+            setProgress(100);
             
-            if (result.processedImageSrc) {
-                setProcessedImageUrl(result.processedImageSrc);
+            if (result.size > 0) {
+                setProcessedImageUrl(URL.createObjectURL(result));
+                setProcessedMime(result.type);
+                setProcessedFilename(readContentDispositionFilename(response.headers.get('Content-Disposition')) || fallbackFilename);
                 setIsProcessComplete(true);
             } else {
                 throw new Error("Respon server tidak valid.");
@@ -374,26 +1295,113 @@ export default function App() {
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
         } catch (error: any) {
-            clearInterval(interval);
+            // Dibatalkan pengguna: modal sudah ditutup oleh cancelProcessing.
+            if (controller.signal.aborted) return;
             setErrorMessage(error.message || "Terjadi kesalahan.");
             setTimeout(() => {
                 setErrorMessage(null)
                 setIsProcessing(false); // Sembunyikan modal jika error
             }, 4000);
+        } finally {
+            progressWatch.finished = true;
+            if (progressWatch.retry) clearTimeout(progressWatch.retry);
+            progressWatch.events?.close();
+            if (exportJobRef.current?.jobId === jobId) exportJobRef.current = null;
         }
     };
+
+    // Handler utama untuk memproses gambar
+    const handleProcessImage = async () => {
+        if (!fullResImage || !selectedPreset) {
+            setErrorMessage("Gambar atau preset belum siap.");
+            setTimeout(() => setErrorMessage(null), 3000);
+            return;
+        }
+
+        await runExport('/api/process-image', (jobId) => {
+            const options = {
+                presetId: selectedPreset,
+                blendPresetId,
+                settings: currentEdit.settings,
+                stripGps: sourceHasGps && stripGps,
+                sourceName: sourceFileName,
+                jobId,
+                exportOptions: currentExportOptions(),
+            };
+            // Gambar dikirim biner (multipart), bukan data URL base64.
+            const formData = new FormData();
+            formData.append('image', fullResImage, sourceFileName);
+            formData.append('options', JSON.stringify(options));
+            if (customLut && usesCustomLut(currentEdit)) formData.append('lut', customLut.file, customLut.name);
+            return formData;
+        }, `hasil_HD_by_masarif_id.${getExportFormat(exportFormat).extension}`);
+    };
+
+    // Semua foto atau foto terpilih, masing-masing dengan preset & slidernya; hasilnya satu ZIP.
+    const handleProcessBatch = async () => {
+        const withCurrentEdit = batchItems.map(item => (item.id === activeItemId ? { ...item, edit: currentEdit } : item));
+        const items = exportScope === 'selected'
+            ? withCurrentEdit.filter(item => selectedItemIds.includes(item.id))
+            : withCurrentEdit;
+        if (items.length === 0 || items.some(item => !item.edit.presetId)) {
+            setErrorMessage("Foto atau preset belum siap.");
+            setTimeout(() => setErrorMessage(null), 3000);
+            return;
+        }
+
+        await runExport('/api/process-batch', (jobId) => {
+            const options = {
+                jobId,
+                exportOptions: currentExportOptions(),
+                items: items.map(item => ({
+                    presetId: item.edit.presetId,
+                    blendPresetId: item.edit.blendPresetId,
+                    settings: item.edit.settings,
+                    stripGps: item.hasGps && stripGps,
+                    sourceName: item.name,
+                })),
+            };
+            const formData = new FormData();
+            items.forEach(item => formData.append('images', item.fullRes, item.name));
+            formData.append('options', JSON.stringify(options));
+            if (customLut && items.some(item => usesCustomLut(item.edit))) {
+                formData.append('lut', customLut.file, customLut.name);
+            }
+            return formData;
+        }, 'hasil_HD_batch_by_masarif_id.zip');
+    };
+
+    // Memutus upload/unduhan dan memberi tahu server agar berhenti memproses.
+    const cancelProcessing = () => {
+        const job = exportJobRef.current;
+        if (!job) return;
+        exportJobRef.current = null;
+        job.controller.abort();
+        fetch(`/api/process-image/jobs/${job.jobId}`, { method: 'DELETE' }).catch(() => {});
+        setIsProcessing(false);
+        setProgress(0);
+    };
+
+    // Job yang masih berjalan saat halaman ditinggalkan ikut dibatalkan.
+    useEffect(() => () => exportJobRef.current?.controller.abort(), []);
     
     // Fungsi untuk menutup modal
     const closeModal = () => {
         setIsProcessing(false);
         setIsProcessComplete(false);
+        if (processedImageUrl) URL.revokeObjectURL(processedImageUrl);
         setProcessedImageUrl(null);
         setProgress(0);
     }
     
     const resetAll = () => {
+        setBatchItems([]);
+        setActiveItemId(null);
+        setSelectedItemIds([]);
+        setExportScope('current');
         setPreviewImage(null);
-        setFullResImageSrc(null);
+        setFullResImage(null);
+        setSourceHasGps(false);
         setFileProcessingMessage(null);
         if (fileInputRef.current) fileInputRef.current.value = "";
         resetSliders();
@@ -404,27 +1412,75 @@ export default function App() {
         setWhiteBalance(0);
         setHighlights(0);
         setShadows(0);
+        setTint(0);
+        setWhites(0);
+        setBlacks(0);
+        setContrast(0);
+        setSaturation(0);
+        setVibrance(0);
+        setCurves(DEFAULT_TONE_CURVES);
         setGrain(10);
+        setGrainSize(DEFAULT_PIPELINE_SETTINGS.grainSize);
+        setGrainType(DEFAULT_PIPELINE_SETTINGS.grainType);
+        setIntensity(DEFAULT_PIPELINE_SETTINGS.intensity);
+        setBlend(DEFAULT_PIPELINE_SETTINGS.blend);
+        setBlendPresetId(null);
     };
     
     const slidersConfig = [
+      { id: 'intensity', label: 'Intensitas Preset (%)', value: intensity, setter: setIntensity, min: 0, max: 150, step: 1 },
       { id: 'exposure', label: 'Exposure', value: exposure, setter: setExposure, min: -100, max: 100, step: 1 },
       { id: 'whiteBalance', label: 'White Balance', value: whiteBalance, setter: setWhiteBalance, min: -100, max: 100, step: 1 },
+      { id: 'tint', label: 'Tint', value: tint, setter: setTint, min: -100, max: 100, step: 1 },
+      { id: 'contrast', label: 'Kontras', value: contrast, setter: setContrast, min: -100, max: 100, step: 1 },
       { id: 'highlights', label: 'Highlights', value: highlights, setter: setHighlights, min: -100, max: 100, step: 1 },
       { id: 'shadows', label: 'Shadows', value: shadows, setter: setShadows, min: -100, max: 100, step: 1 },
+      { id: 'whites', label: 'Whites', value: whites, setter: setWhites, min: -100, max: 100, step: 1 },
+      { id: 'blacks', label: 'Blacks', value: blacks, setter: setBlacks, min: -100, max: 100, step: 1 },
+      { id: 'saturation', label: 'Saturasi', value: saturation, setter: setSaturation, min: -100, max: 100, step: 1 },
+      { id: 'vibrance', label: 'Vibrance', value: vibrance, setter: setVibrance, min: -100, max: 100, step: 1 },
       { id: 'grain', label: 'Grain', value: grain, setter: setGrain, min: 0, max: 100, step: 1 },
     ];
     
-    const handleCategoryClick = (categoryLabel: string) => {
-        setActiveCategory(categoryLabel);
+    const presetGroups = presetManifest?.categories ?? [];
+
+    const handleCategoryClick = (categoryId: string) => {
+        setActiveCategory(categoryId);
         // Set the selected preset to the first option of the new category
-        const newGroup = presetGroups.find(group => group.label === categoryLabel);
-        if (newGroup && newGroup.options.length > 0) {
-            setSelectedPreset(newGroup.options[0].value);
+        const newGroup = presetGroups.find(group => group.id === categoryId);
+        if (newGroup && newGroup.presets.length > 0) {
+            setSelectedPreset(newGroup.presets[0].id);
         }
     }
 
-    const currentOptions = presetGroups.find(group => group.label === activeCategory)?.options || [];
+    const currentOptions = presetGroups.find(group => group.id === activeCategory)?.presets || [];
+    // Selama thumbnail dari foto belum siap, pakai thumbnail bawaan manifest bila ada.
+    const presetTiles = [
+        ...currentOptions.map(opt => ({ id: opt.id, label: opt.label, src: presetThumbnails[opt.id] ?? opt.thumbnail, locked: isPresetLocked(opt.id) })),
+        ...(customLut ? [{ id: CUSTOM_LUT_PRESET_ID, label: `LUT sendiri: ${customLut.name}`, src: customLutThumbnail, locked: false }] : []),
+    ];
+    const selectedTileIndex = presetTiles.findIndex(tile => tile.id === selectedPreset);
+    const isEditLocked = isPresetLocked(currentEdit.presetId) || (currentEdit.settings.blend > 0 && isPresetLocked(currentEdit.blendPresetId));
+
+    // Panah/Home/End memindahkan pilihan di grid sekaligus fokusnya (roving tabindex).
+    const handlePresetGridKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+        if (presetTiles.length === 0) return;
+        const current = Math.max(0, selectedTileIndex);
+        const last = presetTiles.length - 1;
+        let next: number;
+        switch (e.key) {
+            case 'ArrowRight': next = Math.min(last, current + 1); break;
+            case 'ArrowLeft': next = Math.max(0, current - 1); break;
+            case 'ArrowDown': next = Math.min(last, current + PRESET_GRID_COLUMNS); break;
+            case 'ArrowUp': next = Math.max(0, current - PRESET_GRID_COLUMNS); break;
+            case 'Home': next = 0; break;
+            case 'End': next = last; break;
+            default: return;
+        }
+        e.preventDefault();
+        setSelectedPreset(presetTiles[next].id);
+        presetGridRef.current?.querySelectorAll<HTMLButtonElement>('[role="radio"]')[next]?.focus();
+    };
 
     return (
         <div className="bg-gray-100 w-full min-h-screen flex flex-col font-sans text-gray-800 md:h-screen md:overflow-hidden">
@@ -441,6 +1497,111 @@ export default function App() {
              )}
 
             {/* Modal Terpusat untuk Proses & Unduh */}
+            {isExportDialogOpen && !isProcessing && (
+                <div className="fixed inset-0 bg-gray-900/30 backdrop-blur-sm flex items-center justify-center z-[100] p-4 transition-opacity duration-300">
+                    <div className="bg-white p-6 sm:p-8 rounded-2xl shadow-xl w-full max-w-md animate-fade-in-up relative">
+                        <button
+                            onClick={() => setIsExportDialogOpen(false)}
+                            className="absolute top-3 right-3 w-8 h-8 flex items-center justify-center bg-gray-200 rounded-full text-gray-600 hover:bg-gray-300 hover:text-gray-800 hover:rotate-90 transition-transform duration-300"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                        <h3 className="text-xl sm:text-2xl font-bold mb-4 text-gray-800 text-center">OPSI EKSPOR</h3>
+                        <div className="space-y-4">
+                            <div>
+                                <label htmlFor="exportFormat" className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                                <select
+                                    id="exportFormat"
+                                    value={exportFormat}
+                                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                >
+                                    {EXPORT_FORMATS.map(format => (
+                                        <option key={format.id} value={format.id}>{format.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {getExportFormat(exportFormat).lossy && (
+                                <div>
+                                    <div className="flex justify-between items-center mb-2">
+                                        <label htmlFor="exportQuality" className="text-sm font-medium text-gray-700">Kualitas</label>
+                                        <span className="text-sm font-mono bg-gray-200 text-gray-800 px-2 py-0.5 rounded-md w-12 text-center">{exportQuality}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        id="exportQuality"
+                                        min={1}
+                                        max={100}
+                                        step={1}
+                                        value={exportQuality}
+                                        onChange={(e) => setExportQuality(Number(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-thumb"
+                                    />
+                                </div>
+                            )}
+                            <div>
+                                <label htmlFor="exportResize" className="block text-sm font-medium text-gray-700 mb-1">Ukuran</label>
+                                <select
+                                    id="exportResize"
+                                    value={exportResize}
+                                    onChange={(e) => setExportResize(e.target.value)}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                >
+                                    {RESIZE_PRESETS.map(preset => (
+                                        <option key={preset.id} value={preset.id}>{preset.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="filenameTemplate" className="block text-sm font-medium text-gray-700 mb-1">Nama file</label>
+                                <input
+                                    type="text"
+                                    id="filenameTemplate"
+                                    value={filenameTemplate}
+                                    maxLength={120}
+                                    onChange={(e) => setFilenameTemplate(e.target.value)}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">{'{nama}'} = nama file asli, {'{preset}'} = nama preset</p>
+                            </div>
+                            {batchItems.length > 1 && (
+                                <div>
+                                    <label htmlFor="exportScope" className="block text-sm font-medium text-gray-700 mb-1">Foto yang diproses</label>
+                                    <select
+                                        id="exportScope"
+                                        value={exportScope}
+                                        onChange={(e) => setExportScope(e.target.value as ExportScope)}
+                                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                    >
+                                        <option value="current">Foto ini saja</option>
+                                        <option value="all">Semua foto ({batchItems.length}) - ZIP</option>
+                                        <option value="selected" disabled={selectedItemIds.length === 0}>Foto terpilih ({selectedItemIds.length}) - ZIP</option>
+                                    </select>
+                                </div>
+                            )}
+                            {(exportScope === 'current' ? sourceHasGps : batchItems.some(item => item.hasGps)) && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={stripGps}
+                                        onChange={(e) => setStripGps(e.target.checked)}
+                                    />
+                                    Hapus data lokasi (GPS) dari hasil
+                                </label>
+                            )}
+                            {isEditLocked && (
+                                <p className="text-xs text-amber-700 bg-amber-50 rounded-md p-2">
+                                    Preset ini belum dibeli: hasil diberi watermark dengan resolusi terbatas.
+                                </p>
+                            )}
+                            <button onClick={exportScope === 'current' || batchItems.length < 2 ? handleProcessImage : handleProcessBatch} className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors">
+                                Proses & Download
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {isProcessing && (
                 <div className="fixed inset-0 bg-gray-900/30 backdrop-blur-sm flex items-center justify-center z-[100] p-4 transition-opacity duration-300">
                     <div className="bg-white p-6 sm:p-8 rounded-2xl shadow-xl w-full max-w-md text-center animate-fade-in-up relative">
@@ -448,7 +1609,7 @@ export default function App() {
                             // Tampilan saat memproses
                             <>
                                 <h3 className="text-xl sm:text-2xl font-bold mb-4 text-gray-800">MEMPROSES FOTO</h3>
-                                <p className="text-gray-600 mb-6">Ditunggu ya lagi di proses biar HD...</p>
+                                <p className="text-gray-600 mb-6">{EXPORT_STAGE_LABELS[exportStage]}</p>
                                 <div className="w-full bg-gray-200 rounded-full h-4 overflow-hidden">
                                     <div
                                         className="bg-blue-600 h-4 rounded-full transition-all duration-300 ease-in-out"
@@ -456,6 +1617,12 @@ export default function App() {
                                     ></div>
                                 </div>
                                 <p className="text-right text-sm font-mono text-gray-500 mt-2">{progress}%</p>
+                                <button
+                                    onClick={cancelProcessing}
+                                    className="mt-4 text-sm font-semibold text-gray-600 py-2 px-6 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+                                >
+                                    Batalkan
+                                </button>
                             </>
                         ) : (
                             // Tampilan setelah proses selesai
@@ -469,17 +1636,23 @@ export default function App() {
                                 <h3 className="text-xl sm:text-2xl font-bold mb-2 text-gray-800">Proses Selesai!</h3>
                                 <p className="text-sm text-gray-600 mb-4">Pratinjau gambar Anda di bawah ini.</p>
                                 <div className="mb-5">
-                                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                                    <img
-                                        src={processedImageUrl || ''}
-                                        alt="Hasil Pratinjau"
-                                        className="w-full h-auto object-contain rounded-lg max-h-[45vh] shadow-lg"
-                                    />
+                                    {processedMime === 'application/zip' ? (
+                                        <p className="text-sm text-gray-500 py-8 bg-gray-100 rounded-lg">Semua foto sudah dikemas dalam satu file ZIP.</p>
+                                    ) : processedMime === 'image/tiff' ? (
+                                        <p className="text-sm text-gray-500 py-8 bg-gray-100 rounded-lg">Pratinjau TIFF tidak tersedia di browser.</p>
+                                    ) : (
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img
+                                            src={processedImageUrl || ''}
+                                            alt="Hasil Pratinjau"
+                                            className="w-full h-auto object-contain rounded-lg max-h-[45vh] shadow-lg"
+                                        />
+                                    )}
                                 </div>
                                 <div className="flex flex-col items-center gap-4">
                                     <a
                                         href={processedImageUrl || ''}
-                                        download="hasil_HD_by_masarif_id.jpg"
+                                        download={processedFilename}
                                         className="w-full sm:w-auto inline-block bg-blue-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-blue-700 transition-colors shadow-lg hover:shadow-xl"
                                     >
                                         Unduh Foto
@@ -505,7 +1678,7 @@ export default function App() {
 
             <header className="flex-shrink-0 text-center py-4 bg-white/80 backdrop-blur-sm">
                 <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Preview Preset by @masarif.id</h1>
-                <p className="text-sm text-gray-600 mt-1">Mendukung JPG, PNG, HEIC, TIFF, dan format lainnya</p>
+                <p className="text-sm text-gray-600 mt-1">Mendukung JPG, PNG, HEIC, TIFF, RAW, dan format lainnya</p>
             </header>
             
             <main className="container mx-auto max-w-full px-4 sm:px-6 lg:px-8 flex-grow flex flex-col min-h-0">
@@ -528,12 +1701,13 @@ export default function App() {
                                     <>
                                         <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
                                         <p className="mt-4 text-lg font-semibold text-gray-700">Klik atau Drop Foto di Sini</p>
-                                        <p className="text-sm text-gray-500 mt-1">Mendukung JPG, PNG, HEIC, TIFF, dan format lainnya</p>
+                                        <p className="text-sm text-gray-500 mt-1">Mendukung JPG, PNG, HEIC, TIFF, RAW, dan format lainnya</p>
                                         <div className="mt-3 text-xs text-gray-400">
                                             <p>✅ JPG, PNG, GIF, WebP, BMP</p>
                                             <p>✅ HEIC/HEIF (iPhone)</p>
                                             <p>✅ TIFF</p>
-                                            <p>❌ RAW (perlu konversi manual)</p>
+                                            <p>✅ RAW (CR2, NEF, ARW, DNG, RAF, ORF, RW2, PEF, SRW)</p>
+                                            <p className="mt-2">Pilih beberapa foto sekaligus (maks. {MAX_BATCH_ITEMS}) untuk proses batch</p>
                                         </div>
                                     </>
                                 )}
@@ -544,7 +1718,8 @@ export default function App() {
                         type="file" 
                         ref={fileInputRef} 
                         onChange={handleFileChange} 
-                        accept="image/*,.heic,.heif,.tiff,.tif" 
+                        multiple
+                        accept={`image/*,.heic,.heif,.tiff,.tif,${ImageProcessor.supportedFormats.raw.join(',')}`}
                         className="hidden" 
                         disabled={isProcessingFile}
                     />
@@ -557,10 +1732,10 @@ export default function App() {
                                     <div className="flex items-center gap-2 bg-gray-200 p-1 rounded-lg">
                                         {presetGroups.map(group => (
                                             <button
-                                                key={group.label}
-                                                onClick={() => handleCategoryClick(group.label)}
+                                                key={group.id}
+                                                onClick={() => handleCategoryClick(group.id)}
                                                 className={`w-full text-sm font-semibold py-2 px-3 rounded-md transition-colors ${
-                                                    activeCategory === group.label
+                                                    activeCategory === group.id
                                                         ? 'bg-white text-blue-600 shadow'
                                                         : 'bg-transparent text-gray-600 hover:bg-white/50'
                                                 }`}
@@ -572,23 +1747,118 @@ export default function App() {
                                 </div>
                                 <div>
                                     <div className="flex items-center justify-between mb-2">
-                                        <label htmlFor="filterSelect" className="block text-sm font-medium text-gray-700">Pilih Preset</label>
+                                        <span id="presetGridLabel" className="block text-sm font-medium text-gray-700">Pilih Preset</span>
                                         {isLutLoading && (
                                             <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500"></div>
                                         )}
                                     </div>
+                                    <div
+                                        ref={presetGridRef}
+                                        role="radiogroup"
+                                        aria-labelledby="presetGridLabel"
+                                        onKeyDown={handlePresetGridKeyDown}
+                                        className="grid grid-cols-3 gap-2"
+                                    >
+                                        {presetTiles.map((tile, index) => {
+                                            const isSelected = tile.id === selectedPreset;
+                                            return (
+                                                <button
+                                                    key={tile.id}
+                                                    type="button"
+                                                    role="radio"
+                                                    aria-checked={isSelected}
+                                                    tabIndex={isSelected || (selectedTileIndex === -1 && index === 0) ? 0 : -1}
+                                                    onClick={() => setSelectedPreset(tile.id)}
+                                                    title={tile.label}
+                                                    className={`flex flex-col rounded-md overflow-hidden border-2 bg-white text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+                                                        isSelected ? 'border-blue-600 shadow' : 'border-transparent hover:border-gray-300'
+                                                    }`}
+                                                >
+                                                    {tile.src ? (
+                                                        // eslint-disable-next-line @next/next/no-img-element
+                                                        <img src={tile.src} alt="" className="w-full aspect-square object-cover" />
+                                                    ) : (
+                                                        <div className="w-full aspect-square bg-gray-200 animate-pulse" />
+                                                    )}
+                                                    <span className={`px-1 py-1 text-xs truncate ${isSelected ? 'font-semibold text-blue-600' : 'text-gray-700'}`}>
+                                                        {tile.locked && <span title="Preset berbayar" aria-label="Preset berbayar">🔒 </span>}
+                                                        {tile.label}
+                                                    </span>
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                    <button
+                                        onClick={() => customLutInputRef.current?.click()}
+                                        className="mt-2 text-sm font-semibold text-blue-600 hover:text-blue-700"
+                                    >
+                                        {customLut ? 'Ganti LUT sendiri (.cube)' : 'Muat LUT sendiri (.cube)'}
+                                    </button>
+                                    <input
+                                        type="file"
+                                        ref={customLutInputRef}
+                                        onChange={handleCustomLutChange}
+                                        accept=".cube"
+                                        className="hidden"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="interpolationSelect" className="block text-sm font-medium text-gray-700 mb-2">Interpolasi LUT</label>
                                     <select
-                                        id="filterSelect"
-                                        value={selectedPreset}
-                                        onChange={(e) => setSelectedPreset(e.target.value)}
+                                        id="interpolationSelect"
+                                        value={interpolation}
+                                        onChange={(e) => setInterpolation(e.target.value as LutInterpolation)}
                                         className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-                                        disabled={isLutLoading}
                                     >
-                                        {currentOptions.map(opt => (
+                                        {interpolationOptions.map(opt => (
                                             <option key={opt.value} value={opt.value}>{opt.label}</option>
                                         ))}
                                     </select>
                                 </div>
+                                <div>
+                                    <label htmlFor="blendPresetSelect" className="block text-sm font-medium text-gray-700 mb-2">Campur dengan Preset Lain</label>
+                                    <select
+                                        id="blendPresetSelect"
+                                        value={blendPresetId ?? ''}
+                                        onChange={(e) => {
+                                            const id = e.target.value || null;
+                                            setBlendPresetId(id);
+                                            if (id && blend === 0) setBlend(50);
+                                            if (!id) setBlend(0);
+                                        }}
+                                        className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        <option value="">Tidak dicampur</option>
+                                        {presetGroups.map(group => (
+                                            <optgroup key={group.id} label={group.label}>
+                                                {group.presets.map(opt => (
+                                                    <option key={opt.id} value={opt.id}>{opt.label}</option>
+                                                ))}
+                                            </optgroup>
+                                        ))}
+                                        {customLut && (
+                                            <option value={CUSTOM_LUT_PRESET_ID}>LUT sendiri: {customLut.name}</option>
+                                        )}
+                                    </select>
+                                    {blendPresetId && (
+                                        <div className="mt-3">
+                                            <div className="flex justify-between items-center mb-2">
+                                                <label htmlFor="blend" className="text-sm text-gray-700">Porsi preset kedua (%)</label>
+                                                <span className="text-sm font-mono bg-gray-200 text-gray-800 px-2 py-0.5 rounded-md w-12 text-center">{blend}</span>
+                                            </div>
+                                            <input
+                                                type="range"
+                                                id="blend"
+                                                min={0}
+                                                max={100}
+                                                step={1}
+                                                value={blend}
+                                                onChange={(e) => setBlend(Number(e.target.value))}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-thumb"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
                                 {slidersConfig.map(slider => (
                                     <div key={slider.id}>
                                         <div className="flex justify-between items-center mb-2">
@@ -633,11 +1903,144 @@ export default function App() {
                                         </div>
                                     </div>
                                 ))}
+                                <ToneCurveEditor curves={curves} onChange={setCurves} />
+                                <div>
+                                    <div className="flex justify-between items-center mb-2">
+                                        <label htmlFor="grainSize" className="text-sm font-medium text-gray-700">Ukuran Grain</label>
+                                        <span className="text-sm font-mono bg-gray-200 text-gray-800 px-2 py-0.5 rounded-md w-12 text-center">{grainSize}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        id="grainSize"
+                                        min={0}
+                                        max={100}
+                                        step={1}
+                                        value={grainSize}
+                                        onChange={(e) => setGrainSize(Number(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-thumb"
+                                    />
+                                    <div className="flex items-center justify-between mt-3">
+                                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={grainType === 'color'}
+                                                onChange={(e) => setGrainType(e.target.checked ? 'color' : 'mono')}
+                                            />
+                                            Grain warna
+                                        </label>
+                                        <button
+                                            onClick={() => setGrainSeed(randomGrainSeed())}
+                                            className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+                                        >
+                                            Acak pola grain
+                                        </button>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Riwayat &amp; Resep</label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button
+                                            onClick={() => stepHistory(undoHistory)}
+                                            disabled={!editHistory?.past.length}
+                                            title="Ctrl+Z"
+                                            className="bg-gray-200 text-gray-700 text-sm font-semibold py-2 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            Undo
+                                        </button>
+                                        <button
+                                            onClick={() => stepHistory(redoHistory)}
+                                            disabled={!editHistory?.future.length}
+                                            title="Ctrl+Shift+Z"
+                                            className="bg-gray-200 text-gray-700 text-sm font-semibold py-2 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            Redo
+                                        </button>
+                                    </div>
+                                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                                        <button onClick={handleCopyRecipeLink} className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+                                            Salin link resep
+                                        </button>
+                                        <button onClick={handleDownloadRecipe} className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+                                            Unduh resep (.json)
+                                        </button>
+                                        <button onClick={() => recipeInputRef.current?.click()} className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+                                            Muat resep
+                                        </button>
+                                    </div>
+                                    <input
+                                        type="file"
+                                        ref={recipeInputRef}
+                                        onChange={handleRecipeFileChange}
+                                        accept=".json,application/json"
+                                        className="hidden"
+                                    />
+                                </div>
+                                {hasPaidPresets && (
+                                    <div>
+                                        <label htmlFor="licenseKey" className="block text-sm font-medium text-gray-700 mb-2">Lisensi Preset</label>
+                                        {isEditLocked && (
+                                            <p className="text-xs text-amber-700 bg-amber-50 rounded-md p-2 mb-2">
+                                                Preset berbayar: pratinjau memakai versi ringan dan hasil unduhan diberi watermark. Sudah membeli? Masukkan kode lisensi dari email pesanan.
+                                            </p>
+                                        )}
+                                        {license && (
+                                            <p className="text-xs text-gray-600 mb-2">
+                                                Lisensi aktif (pesanan {license.order}).{' '}
+                                                <button onClick={handleRemoveLicense} className="font-semibold text-blue-600 hover:text-blue-700">Hapus</button>
+                                            </p>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="text"
+                                                id="licenseKey"
+                                                value={licenseKeyInput}
+                                                onChange={(e) => setLicenseKeyInput(e.target.value)}
+                                                onKeyDown={(e) => { if (e.key === 'Enter') handleUnlockLicense(); }}
+                                                placeholder="MSR1...."
+                                                autoComplete="off"
+                                                spellCheck={false}
+                                                className="flex-1 min-w-0 p-2 border border-gray-300 rounded-md shadow-sm text-sm font-mono focus:ring-blue-500 focus:border-blue-500"
+                                            />
+                                            <button
+                                                onClick={handleUnlockLicense}
+                                                disabled={!licenseKeyInput.trim() || isVerifyingLicense}
+                                                className="bg-gray-200 text-gray-700 text-sm font-semibold py-2 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                {isVerifyingLicense ? 'Memeriksa...' : 'Buka'}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                <div>
+                                    <label htmlFor="lutExportSize" className="block text-sm font-medium text-gray-700 mb-2">Ekspor LUT (.cube)</label>
+                                    <div className="flex gap-2">
+                                        <select
+                                            id="lutExportSize"
+                                            value={lutExportSize}
+                                            onChange={(e) => setLutExportSize(Number(e.target.value) as LutExportSize)}
+                                            className="p-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                                        >
+                                            {LUT_EXPORT_SIZES.map(size => (
+                                                <option key={size} value={size}>{size}×{size}×{size}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={handleExportLut}
+                                            disabled={!selectedPreset || isExportingLut || isEditLocked}
+                                            className="flex-1 bg-gray-200 text-gray-700 text-sm font-semibold py-2 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {isExportingLut ? 'Membuat LUT...' : 'Unduh LUT'}
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {isEditLocked ? 'Tersedia setelah preset ini dibeli.' : 'Preset dan semua slider kecuali grain, untuk Lightroom atau Resolve.'}
+                                    </p>
+                                </div>
                                 <div className="pt-4 space-y-3">
                                    <button onClick={resetSliders} className="w-full bg-gray-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors">
                                         Reset Slider
                                     </button>
-                                   <button onClick={handleProcessImage} disabled={isProcessing} className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-blue-500 disabled:cursor-not-allowed flex items-center justify-center">
+                                   <button onClick={() => setIsExportDialogOpen(true)} disabled={isProcessing} className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-blue-500 disabled:cursor-not-allowed flex items-center justify-center">
                                         {isProcessing ? 'Memproses...' : 'Proses & Download Foto HD'}
                                     </button>
                                    <button onClick={resetAll} className="w-full bg-red-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-red-600 transition-colors">
@@ -658,36 +2061,205 @@ export default function App() {
                                 </div>
                             </div>
                             
-                            <div className="flex-grow order-first md:order-last relative flex items-center justify-center min-h-[300px] md:min-h-0">
-                                <div
-                                    ref={sliderContainerRef}
-                                    style={{ aspectRatio: `${previewImage.width} / ${previewImage.height}` }}
-                                    className="relative max-w-full max-h-full rounded-lg shadow-inner overflow-hidden bg-gray-200"
-                                >
-                                    {/* Base canvas, fills the container */}
-                                    <canvas
-                                        ref={afterCanvasRef}
-                                        className="block w-full h-full"
-                                    />
-                                    {/* Clipper div is positioned absolutely on top of the base canvas */}
+                            <div className="flex-grow order-first md:order-last flex flex-col gap-3 min-w-0 min-h-0">
+                                <div className="flex-grow relative flex items-center justify-center min-h-[300px] md:min-h-0">
                                     <div
-                                        className="absolute inset-0"
-                                        style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+                                        ref={sliderContainerRef}
+                                        style={{ aspectRatio: `${compareMode === 'side-by-side' ? previewImage.width * 2 : previewImage.width} / ${previewImage.height}` }}
+                                        className={`relative max-w-full max-h-full rounded-lg shadow-inner overflow-hidden bg-gray-200 touch-none select-none ${compareView.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                        onPointerDown={handleComparePointerDown}
+                                        onPointerMove={handleComparePointerMove}
+                                        onPointerUp={handleComparePointerUp}
+                                        onPointerCancel={handleComparePointerUp}
+                                        onPointerLeave={() => setPixelProbe(null)}
                                     >
-                                        {/* Before canvas fills the clipper */}
+                                        {/* Menentukan ukuran area; canvas tanpa konteks tidak memakai memori piksel */}
                                         <canvas
-                                            ref={beforeCanvasRef}
+                                            width={compareMode === 'side-by-side' ? previewImage.width * 2 : previewImage.width}
+                                            height={previewImage.height}
                                             className="block w-full h-full"
+                                            aria-hidden
                                         />
+                                        {/* Panel "sesudah"; zoom/geser diterapkan sama persis ke panel "sebelum" */}
+                                        <div className={`absolute overflow-hidden ${compareMode === 'side-by-side' ? 'inset-y-0 right-0 w-1/2' : 'inset-0'}`}>
+                                            <div className="absolute inset-0 origin-top-left" style={{ transform: viewTransform(compareView) }}>
+                                                <canvas ref={afterCanvasRef} className="block w-full h-full" />
+                                            </div>
+                                            <canvas ref={detailAfterCanvasRef} className={`absolute inset-0 w-full h-full ${showDetail ? '' : 'invisible'}`} />
+                                            <div className="absolute inset-0 origin-top-left pointer-events-none" style={{ transform: viewTransform(compareView) }}>
+                                                <canvas ref={clippingCanvasRef} className="block w-full h-full opacity-80" />
+                                            </div>
+                                        </div>
+                                        <div
+                                            className={`absolute overflow-hidden ${compareMode === 'side-by-side' ? 'inset-y-0 left-0 w-1/2' : 'inset-0'} ${compareMode === 'hold' && !isHoldingBefore ? 'invisible' : ''}`}
+                                            style={{
+                                                clipPath: compareMode === 'wipe'
+                                                    ? `inset(0 ${100 - sliderPosition}% 0 0)`
+                                                    : compareMode === 'wipe-vertical' ? `inset(0 0 ${100 - sliderPosition}% 0)` : undefined,
+                                            }}
+                                        >
+                                            <div className="absolute inset-0 origin-top-left" style={{ transform: viewTransform(compareView) }}>
+                                                <canvas ref={beforeCanvasRef} className="block w-full h-full" />
+                                            </div>
+                                            <canvas ref={detailBeforeCanvasRef} className={`absolute inset-0 w-full h-full ${showDetail ? '' : 'invisible'}`} />
+                                        </div>
+                                        {compareMode === 'wipe' && (
+                                            <div
+                                                className="absolute top-0 bottom-0 w-1 bg-white/70 backdrop-blur-sm cursor-ew-resize"
+                                                style={{ left: `${sliderPosition}%`, transform: 'translateX(-50%)' }}
+                                                onPointerDown={(e) => { e.stopPropagation(); setIsDragging(true); }}
+                                                onTouchStart={() => setIsDragging(true)}
+                                            >
+                                                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white/80 rounded-full shadow-lg grid place-items-center backdrop-blur-sm">
+                                                    <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 17l-4-4 4-4m2 8l4-4-4-4" /></svg>
+                                                </div>
+                                            </div>
+                                        )}
+                                        {compareMode === 'wipe-vertical' && (
+                                            <div
+                                                className="absolute left-0 right-0 h-1 bg-white/70 backdrop-blur-sm cursor-ns-resize"
+                                                style={{ top: `${sliderPosition}%`, transform: 'translateY(-50%)' }}
+                                                onPointerDown={(e) => { e.stopPropagation(); setIsDragging(true); }}
+                                                onTouchStart={() => setIsDragging(true)}
+                                            >
+                                                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white/80 rounded-full shadow-lg grid place-items-center backdrop-blur-sm">
+                                                    <svg className="w-5 h-5 text-gray-600 rotate-90" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 17l-4-4 4-4m2 8l4-4-4-4" /></svg>
+                                                </div>
+                                            </div>
+                                        )}
+                                        {compareMode === 'side-by-side' && (
+                                            <div className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 bg-white/70 pointer-events-none" />
+                                        )}
+                                        {compareMode === 'hold' ? (
+                                            <span className="absolute top-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded-full pointer-events-none">
+                                                {isHoldingBefore ? 'Sebelum' : 'Sesudah · tahan untuk melihat sebelum'}
+                                            </span>
+                                        ) : (
+                                            <>
+                                                <span className="absolute top-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded-full pointer-events-none">Sebelum</span>
+                                                <span
+                                                    className={`absolute bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded-full pointer-events-none ${
+                                                        compareMode === 'wipe' ? 'top-2 right-2' : compareMode === 'wipe-vertical' ? 'bottom-2 left-2' : 'top-2 left-1/2 ml-2'
+                                                    }`}
+                                                >
+                                                    Sesudah
+                                                </span>
+                                            </>
+                                        )}
                                     </div>
-                                    <div className="absolute top-0 bottom-0 w-1 bg-white/70 backdrop-blur-sm cursor-ew-resize" style={{ left: `${sliderPosition}%`, transform: 'translateX(-50%)' }} onPointerDown={() => setIsDragging(true)} onTouchStart={() => setIsDragging(true)}>
-                                        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white/80 rounded-full shadow-lg grid place-items-center backdrop-blur-sm">
-                                            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 17l-4-4 4-4m2 8l4-4-4-4" /></svg>
+                                </div>
+                                <div className="flex-shrink-0 space-y-2">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                        <div className="flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="Mode pembanding">
+                                            {COMPARE_MODES.map(mode => (
+                                                <button
+                                                    key={mode.id}
+                                                    onClick={() => setCompareMode(mode.id)}
+                                                    aria-pressed={compareMode === mode.id}
+                                                    className={`px-3 py-1 ${compareMode === mode.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                                                >
+                                                    {mode.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="flex items-center gap-1 md:ml-auto">
+                                            <button
+                                                onClick={() => setCompareView(FIT_VIEW)}
+                                                disabled={compareView.zoom === 1}
+                                                className="bg-gray-200 text-gray-700 font-semibold py-1 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                Pas
+                                            </button>
+                                            <button
+                                                onClick={handleActualPixels}
+                                                title="Tampilkan foto asli 100%"
+                                                className="bg-gray-200 text-gray-700 font-semibold py-1 px-3 rounded-md hover:bg-gray-300"
+                                            >
+                                                1:1
+                                            </button>
+                                            <span className="w-12 text-right font-mono text-xs text-gray-600">×{compareView.zoom.toFixed(1)}</span>
                                         </div>
                                     </div>
-                                    <span className="absolute top-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded-full pointer-events-none">Sebelum</span>
-                                    <span className="absolute top-2 right-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded-full pointer-events-none">Sesudah</span>
+                                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={showHistogram} onChange={(e) => setShowHistogram(e.target.checked)} />
+                                            Histogram
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={clipping.highlights}
+                                                onChange={(e) => setClipping(options => ({ ...options, highlights: e.target.checked }))}
+                                            />
+                                            Klip highlight <span className="w-3 h-3 rounded-sm bg-red-600" />
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={clipping.shadows}
+                                                onChange={(e) => setClipping(options => ({ ...options, shadows: e.target.checked }))}
+                                            />
+                                            Klip shadow <span className="w-3 h-3 rounded-sm bg-blue-600" />
+                                        </label>
+                                        {pixelProbe && (
+                                            <span className="font-mono text-xs md:ml-auto">
+                                                {formatProbe(pixelProbe.before)} → {formatProbe(pixelProbe.after)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {showHistogram && (
+                                        <div className="flex gap-3">
+                                            <HistogramChart histogram={beforeHistogram} label="Sebelum" />
+                                            <HistogramChart histogram={afterHistogram} label="Sesudah" />
+                                        </div>
+                                    )}
                                 </div>
+                                {batchItems.length > 1 && (
+                                    <div className="flex-shrink-0">
+                                        <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+                                            <span className="font-medium text-gray-700">{batchItems.length} foto · {selectedItemIds.length} dipilih</span>
+                                            <div className="flex gap-4">
+                                                <button
+                                                    onClick={() => applyEditToItems(selectedItemIds)}
+                                                    disabled={selectedItemIds.length === 0}
+                                                    className="font-semibold text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                                >
+                                                    Terapkan ke yang dipilih
+                                                </button>
+                                                <button
+                                                    onClick={() => applyEditToItems(batchItems.map(item => item.id))}
+                                                    className="font-semibold text-blue-600 hover:text-blue-700"
+                                                >
+                                                    Terapkan ke semua
+                                                </button>
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2 overflow-x-auto pb-2">
+                                            {batchItems.map(item => (
+                                                <div
+                                                    key={item.id}
+                                                    className={`relative flex-shrink-0 rounded-md overflow-hidden border-2 ${item.id === activeItemId ? 'border-blue-600' : 'border-transparent'}`}
+                                                >
+                                                    <button onClick={() => handleSelectItem(item)} title={item.name} className="block">
+                                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                                        <img src={item.thumbnailUrl} alt={item.name} className="h-16 w-auto block" />
+                                                    </button>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedItemIds.includes(item.id)}
+                                                        onChange={() => toggleItemSelection(item.id)}
+                                                        aria-label={`Pilih ${item.name}`}
+                                                        className="absolute top-1 left-1"
+                                                    />
+                                                    {/* Foto dengan preset/slider sendiri (berbeda dari foto yang sedang diedit) */}
+                                                    {item.id !== activeItemId && !isSameEdit(item.edit, currentEdit) && (
+                                                        <span className="absolute bottom-1 right-1 bg-black/60 text-white text-[10px] px-1 rounded pointer-events-none">Beda</span>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Build Emscripten dcraw memuat dirinya sendiri; jangan dibundel webpack.
+  serverExternalPackages: ["dcraw"],
 };
 
 export default nextConfig;
@@ -0,0 +1,65 @@
+// CLI untuk tim toko: membuat kode lisensi preset berbayar dengan
+// LICENSE_SECRET yang sama dengan server, misalnya:
+//
+//   LICENSE_SECRET=... npm run license -- --order INV-1042 --preset misty
+//   LICENSE_SECRET=... npm run license -- --order INV-1043 --all --days 365
+import { parseArgs } from 'util';
+import { ALL_PRESETS } from '../utils/license';
+import { createLicenseKey, verifyLicenseKey } from '../utils/licenseKeys';
+import { loadPresetManifest } from '../utils/presetRegistry';
+
+const USAGE = `Pemakaian: npm run license -- --order <nomor> (--preset <id>... | --all) [--days <n>]
+
+  --order <nomor>   nomor pesanan di toko
+  --preset <id>     preset yang dibeli, boleh berulang
+  --all             buka semua preset berbayar
+  --days <n>        masa berlaku dalam hari (default: selamanya)
+`;
+
+const run = async (argv: string[]): Promise<number> => {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            order: { type: 'string' },
+            preset: { type: 'string', multiple: true },
+            all: { type: 'boolean' },
+            days: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help || !values.order || (!values.all && !values.preset?.length)) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const presets = values.all ? [ALL_PRESETS] : (values.preset ?? []);
+    const manifest = await loadPresetManifest();
+    const paidIds = manifest.categories.flatMap(category => category.presets.filter(preset => preset.paid).map(preset => preset.id));
+    const unknown = presets.filter(id => id !== ALL_PRESETS && !paidIds.includes(id));
+    if (unknown.length > 0) {
+        console.error(`Bukan preset berbayar di presets/manifest.json: ${unknown.join(', ')}. Pilihan: ${paidIds.join(', ')}.`);
+        return 2;
+    }
+    const days = values.days === undefined ? null : Number(values.days);
+    if (days !== null && !(Number.isInteger(days) && days > 0)) {
+        console.error('--days harus bilangan bulat positif.');
+        return 2;
+    }
+
+    const key = createLicenseKey({
+        order: values.order,
+        presets,
+        expiresAt: days === null ? null : Math.floor(Date.now() / 1000) + days * 24 * 60 * 60,
+    });
+    // Memastikan kode yang dibuat memang lolos verifikasi server.
+    if (!verifyLicenseKey(key)) throw new Error('Kode lisensi yang dibuat gagal diverifikasi.');
+    console.log(key);
+    return 0;
+};
+
+run(process.argv.slice(2))
+    .then(code => { process.exitCode = code; })
+    .catch(error => {
+        console.error(`license: ${error instanceof Error ? error.message : error}`);
+        process.exitCode = 2;
+    });
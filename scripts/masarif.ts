@@ -0,0 +1,241 @@
+// CLI: menerapkan preset dan slider ke file atau folder foto memakai alur
+// ekspor yang sama dengan /api/process-image. Dijalankan dari root repo
+// (preset dibaca dari presets/), misalnya:
+//
+//   npm run cli -- --preset film-1 foto/ -o hasil/
+//   npm run cli -- --recipe resep.json "foto/**/*.jpg" --format webp -j 4
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { PhotoEdit, RECIPE_VERSION, RecipeParseError, parseRecipe } from '../utils/editRecipe';
+import { ExportTask, LoadedPreset, blendPresets, loadPresetForExport, processImageExport } from '../utils/exportProcessor';
+import { ExportOptions, buildExportFilename } from '../utils/exportOptions';
+import { InputFile, expandInputs } from '../utils/fileGlob';
+import { LutParseError, parseCubeFile } from '../utils/lut';
+import { DEFAULT_PIPELINE_SETTINGS, SETTING_RANGES } from '../utils/pipeline';
+import { CUSTOM_LUT_PRESET_ID } from '../utils/presetManifest';
+import { loadPresetManifest } from '../utils/presetRegistry';
+import { ProcessImageError } from '../utils/processImageErrors';
+import { CustomLutUpload, parseImageBuffer, validateExportOptions } from '../utils/processImageRequest';
+import { uniqueZipNames } from '../utils/zip';
+
+const USAGE = `Pemakaian: npm run cli -- [opsi] <file|folder|pola glob>...
+
+Preset dan slider:
+  -p, --preset <id>         id preset dari presets/manifest.json
+      --blend-preset <id>   preset kedua, dicampur sebanyak slider blend
+      --lut <file.cube>     LUT sendiri sebagai pengganti --preset
+      --recipe <file.json>  resep edit yang diunduh dari halaman editor
+      --set <nama=nilai>    ubah satu slider, boleh berulang (mis. --set exposure=10)
+      --list-presets        tampilkan id preset yang tersedia
+
+Hasil:
+  -o, --out <folder>        folder hasil (default: hasil)
+  -f, --format <format>     jpeg, png, webp, avif atau tiff16
+  -q, --quality <1-100>     kualitas format lossy
+      --long-edge <px>      batasi sisi panjang
+      --name <template>     template nama file, {nama} dan {preset}
+      --strip-gps           hapus lokasi dari EXIF
+
+Lainnya:
+  -r, --recursive           ikut memproses subfolder
+  -j, --jobs <n>            jumlah foto yang diproses sekaligus (default 2)
+  -n, --dry-run             hanya tampilkan daftar file masuk → hasil
+  -h, --help                tampilkan bantuan ini
+`;
+
+// Seperti BATCH_CONCURRENCY di /api/process-batch: foto besar makan banyak memori.
+const DEFAULT_JOBS = 2;
+
+// Slider non-angka yang juga boleh diubah lewat --set.
+const TEXT_SETTINGS = ['grainType', 'grainSeed', 'interpolation'];
+
+class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+const OPTIONS = {
+    preset: { type: 'string', short: 'p' },
+    'blend-preset': { type: 'string' },
+    lut: { type: 'string' },
+    recipe: { type: 'string' },
+    set: { type: 'string', multiple: true },
+    'list-presets': { type: 'boolean' },
+    out: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    quality: { type: 'string', short: 'q' },
+    'long-edge': { type: 'string' },
+    name: { type: 'string' },
+    'strip-gps': { type: 'boolean' },
+    recursive: { type: 'boolean', short: 'r' },
+    jobs: { type: 'string', short: 'j' },
+    'dry-run': { type: 'boolean', short: 'n' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const parseInteger = (value: string | undefined, flag: string): number | undefined => {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number)) throw new CliUsageError(`${flag} harus bilangan bulat.`);
+    return number;
+};
+
+// Resep (bila ada) lalu --set di atasnya. Keduanya divalidasi parseRecipe,
+// jadi rentang slider sama dengan editor dan server.
+const readEdit = async (values: CliValues): Promise<PhotoEdit> => {
+    const edit: PhotoEdit = values.recipe
+        ? parseRecipe(await fs.readFile(values.recipe, 'utf-8'))
+        : { presetId: null, blendPresetId: null, settings: { ...DEFAULT_PIPELINE_SETTINGS } };
+
+    const overrides: Record<string, string | number> = {};
+    for (const assignment of values.set ?? []) {
+        const match = assignment.match(/^([A-Za-z]+)=(.+)$/);
+        if (!match) throw new CliUsageError(`--set harus berbentuk nama=nilai, bukan "${assignment}".`);
+        const [, key, value] = match;
+        if (!(key in SETTING_RANGES) && !TEXT_SETTINGS.includes(key)) {
+            throw new CliUsageError(`Slider "${key}" tidak dikenal. Pilihan: ${[...Object.keys(SETTING_RANGES), ...TEXT_SETTINGS].join(', ')}.`);
+        }
+        overrides[key] = /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+    }
+    if (Object.keys(overrides).length > 0) {
+        const parsed = parseRecipe(JSON.stringify({ version: RECIPE_VERSION, settings: overrides }));
+        edit.settings = { ...edit.settings, ...Object.fromEntries(Object.keys(overrides).map(key => [key, parsed.settings[key as keyof PhotoEdit['settings']]])) };
+    }
+
+    if (values.lut) edit.presetId = CUSTOM_LUT_PRESET_ID;
+    else if (values.preset) edit.presetId = values.preset;
+    if (values['blend-preset']) edit.blendPresetId = values['blend-preset'];
+
+    if (!edit.presetId) throw new CliUsageError('Pilih preset dengan --preset, --lut atau --recipe.');
+    if (edit.presetId === CUSTOM_LUT_PRESET_ID && !values.lut) {
+        throw new CliUsageError('Resep memakai LUT sendiri; sertakan file-nya dengan --lut <file.cube>.');
+    }
+    if (edit.settings.blend > 0 && !edit.blendPresetId) {
+        throw new CliUsageError('Slider blend lebih dari 0; pilih preset kedua dengan --blend-preset.');
+    }
+    return edit;
+};
+
+const readCustomLut = async (file: string | undefined): Promise<CustomLutUpload | null> => {
+    if (!file) return null;
+    return { name: path.basename(file), lut: parseCubeFile(await fs.readFile(file, 'utf-8')) };
+};
+
+const loadPreset = async (edit: PhotoEdit, customLut: CustomLutUpload | null): Promise<LoadedPreset> => {
+    const load = async (presetId: string, field: string) => {
+        try {
+            return await loadPresetForExport(presetId, customLut, field);
+        } catch (error) {
+            if (error instanceof ProcessImageError && error.code === 'PRESET_NOT_FOUND') {
+                throw new CliUsageError(`Preset "${presetId}" tidak ada di presets/manifest.json (lihat --list-presets).`);
+            }
+            throw error;
+        }
+    };
+    const preset = await load(edit.presetId as string, 'presetId');
+    const blendPreset = edit.blendPresetId && edit.settings.blend > 0 ? await load(edit.blendPresetId, 'blendPresetId') : null;
+    return blendPresets(preset, blendPreset, edit.settings.blend);
+};
+
+// Struktur subfolder ikut ditiru; nama kembar di folder yang sama diberi akhiran _2, _3, dst.
+const planOutputs = (inputs: InputFile[], preset: LoadedPreset, exportOptions: ExportOptions): string[] =>
+    uniqueZipNames(inputs.map(({ relativePath }) => path.posix.join(
+        path.posix.dirname(relativePath),
+        buildExportFilename(exportOptions.filenameTemplate, { sourceName: path.posix.basename(relativePath), presetName: preset.label }, exportOptions.format),
+    )));
+
+const listPresets = async () => {
+    const manifest = await loadPresetManifest();
+    for (const category of manifest.categories) {
+        console.log(`${category.label}:`);
+        for (const preset of category.presets) console.log(`  ${preset.id.padEnd(24)} ${preset.label}`);
+    }
+};
+
+// CLI tidak punya progres atau pembatalan.
+const SILENT_TASK: ExportTask = { update: () => {}, throwIfCancelled: () => {} };
+
+const run = async (argv: string[]): Promise<number> => {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (values['list-presets']) {
+        await listPresets();
+        return 0;
+    }
+    if (positionals.length === 0) throw new CliUsageError('Sebutkan minimal satu file, folder, atau pola glob.');
+
+    const edit = await readEdit(values);
+    const exportOptions = validateExportOptions({
+        format: values.format,
+        quality: parseInteger(values.quality, '--quality'),
+        longEdge: parseInteger(values['long-edge'], '--long-edge'),
+        filenameTemplate: values.name,
+    });
+    const jobs = parseInteger(values.jobs, '--jobs') ?? DEFAULT_JOBS;
+    if (jobs < 1) throw new CliUsageError('--jobs minimal 1.');
+    const outDir = values.out ?? 'hasil';
+
+    const preset = await loadPreset(edit, await readCustomLut(values.lut));
+    const inputs = await expandInputs(positionals, values.recursive ?? false);
+    if (inputs.length === 0) throw new CliUsageError('Tidak ada file gambar yang cocok.');
+    const outputs = planOutputs(inputs, preset, exportOptions);
+
+    if (values['dry-run']) {
+        inputs.forEach((input, index) => console.log(`${input.path} → ${path.join(outDir, outputs[index])}`));
+        console.log(`${inputs.length} foto, preset ${preset.label}, format ${exportOptions.format}.`);
+        return 0;
+    }
+
+    let done = 0;
+    let failed = 0;
+    await mapWithConcurrency(inputs, jobs, async (input, index) => {
+        const outputPath = path.join(outDir, outputs[index]);
+        const started = Date.now();
+        try {
+            const buffer = await fs.readFile(input.path);
+            const result = await processImageExport({
+                image: parseImageBuffer(buffer, '', input.relativePath),
+                settings: edit.settings,
+                stripGps: values['strip-gps'] ?? false,
+                sourceName: path.basename(input.path),
+            }, preset, exportOptions, SILENT_TASK);
+            await fs.mkdir(path.dirname(outputPath), { recursive: true });
+            await fs.writeFile(outputPath, result.output);
+            done++;
+            console.log(`[${done + failed}/${inputs.length}] ${input.path} → ${outputPath} (${((Date.now() - started) / 1000).toFixed(1)} dtk)`);
+        } catch (error) {
+            // Satu foto rusak tidak menghentikan foto lain.
+            failed++;
+            console.error(`[${done + failed}/${inputs.length}] gagal ${input.path}: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+    console.log(`${done} berhasil, ${failed} gagal.`);
+    return failed > 0 ? 1 : 0;
+};
+
+// Kesalahan input pengguna cukup ditampilkan pesannya, tanpa stack trace.
+const isUserError = (error: unknown): error is Error =>
+    error instanceof CliUsageError || error instanceof RecipeParseError
+    || error instanceof LutParseError || error instanceof ProcessImageError
+    || (error instanceof Error && 'code' in error && (error.code === 'ENOENT' || String(error.code).startsWith('ERR_PARSE_ARGS')));
+
+run(process.argv.slice(2))
+    .then(code => { process.exitCode = code; })
+    .catch(error => {
+        if (isUserError(error)) {
+            console.error(`masarif: ${error.message}`);
+            console.error('Jalankan dengan --help untuk melihat opsi.');
+        } else {
+            console.error('masarif:', error);
+        }
+        process.exitCode = 2;
+    });
@@ -0,0 +1,104 @@
+// Parser .cube dan ketiga mode interpolasi LUT.
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LUT_INTERPOLATIONS, LutParseError, applyLUT, createIdentityLut, parseCubeFile, serializeCubeFile } from '../utils/lut';
+
+// LUT 2³ dengan R keluaran = r·g di tiap sudut kisi, G dan B identitas.
+// Fungsi ini tidak linear, jadi trilinear dan tetrahedral memberi hasil
+// berbeda di tengah sel.
+const PRODUCT_CUBE = `TITLE "Produk"
+# merah berubah paling cepat
+LUT_3D_SIZE 2
+0 0 0
+0 0 0
+0 1 0
+1 1 0
+0 0 1
+0 0 1
+0 1 1
+1 1 1
+`;
+
+const assertRgb = (actual: number[], expected: number[]) => {
+    actual.forEach((value, c) => assert.ok(Math.abs(value - expected[c]) < 1e-3, `kanal ${c}: ${value} ≠ ${expected[c]}`));
+};
+
+describe('parseCubeFile', () => {
+    it('membaca TITLE, ukuran, dan baris data', () => {
+        const lut = parseCubeFile(PRODUCT_CUBE);
+        assert.equal(lut.title, 'Produk');
+        assert.equal(lut.shaper, null);
+        assert.equal(lut.cube?.size, 2);
+        assert.deepEqual(lut.cube?.domainMin, [0, 0, 0]);
+        assert.deepEqual(lut.cube?.domainMax, [1, 1, 1]);
+        assert.deepEqual([...lut.cube!.data.subarray(9, 12)], [1, 1, 0]);
+    });
+
+    it('membaca shaper 1D dengan LUT_1D_INPUT_RANGE', () => {
+        const lut = parseCubeFile('LUT_1D_SIZE 2\nLUT_1D_INPUT_RANGE 0 2\n0 0 0\n1 1 1\n');
+        assert.equal(lut.cube, null);
+        assert.deepEqual(lut.shaper?.domainMax, [2, 2, 2]);
+        assertRgb(applyLUT(lut, 255, 127.5, 0), [127.5, 63.75, 0]);
+    });
+
+    it('menolak file tanpa ukuran', () => {
+        assert.throws(() => parseCubeFile('\n'), LutParseError);
+    });
+
+    it('menyebut nomor baris untuk data yang rusak', () => {
+        assert.throws(() => parseCubeFile('LUT_3D_SIZE 2\n0 0\n'), { name: 'LutParseError', line: 2 });
+    });
+
+    it('menolak jumlah baris yang tidak sesuai ukuran', () => {
+        assert.throws(() => parseCubeFile('LUT_3D_SIZE 2\n0 0 0\n'), /seharusnya 8/);
+    });
+
+    it('menolak keyword setelah data', () => {
+        assert.throws(() => parseCubeFile('LUT_3D_SIZE 2\n0 0 0\nTITLE "x"\n'), { line: 3 });
+    });
+
+    it('hasil serializeCubeFile terbaca kembali sama', () => {
+        const lut = parseCubeFile(PRODUCT_CUBE);
+        assert.deepEqual(parseCubeFile(serializeCubeFile(lut)), lut);
+    });
+});
+
+describe('applyLUT', () => {
+    const lut = parseCubeFile(PRODUCT_CUBE);
+
+    it('tepat di titik kisi untuk semua interpolasi', () => {
+        for (const interpolation of LUT_INTERPOLATIONS) {
+            assertRgb(applyLUT(lut, 255, 255, 0, interpolation), [255, 255, 0]);
+            assertRgb(applyLUT(lut, 0, 255, 255, interpolation), [0, 255, 255]);
+        }
+    });
+
+    it('nearest mengambil titik kisi terdekat', () => {
+        assertRgb(applyLUT(lut, 102, 153, 0, 'nearest'), [0, 255, 0]);
+        assertRgb(applyLUT(lut, 153, 153, 0, 'nearest'), [255, 255, 0]);
+    });
+
+    it('trilinear merata-rata delapan sudut sel', () => {
+        assertRgb(applyLUT(lut, 127.5, 127.5, 0, 'trilinear'), [63.75, 127.5, 0]);
+        assertRgb(applyLUT(lut, 127.5, 127.5, 127.5, 'trilinear'), [63.75, 127.5, 127.5]);
+    });
+
+    it('tetrahedral hanya memakai empat sudut tetrahedron', () => {
+        // fr = fg ≥ fb: sudut 000, 100, 110, 111 → R = 0.5 · 1.
+        assertRgb(applyLUT(lut, 127.5, 127.5, 0, 'tetrahedral'), [127.5, 127.5, 0]);
+        // fg ≥ fr: sudut 000, 010, 110, 111 dengan bobot 0.5, 0.3, 0.2, 0.
+        assertRgb(applyLUT(lut, 51, 127.5, 0, 'tetrahedral'), [51, 127.5, 0]);
+    });
+
+    it('LUT identitas tidak mengubah warna di luar titik kisi', () => {
+        const identity = createIdentityLut(5);
+        for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+            assertRgb(applyLUT(identity, 12, 200, 77, interpolation), [12, 200, 77]);
+        }
+    });
+
+    it('nilai di luar domain di-clamp ke tepi', () => {
+        const lut = parseCubeFile('LUT_3D_SIZE 2\nDOMAIN_MIN 0 0 0\nDOMAIN_MAX 0.5 0.5 0.5\n' + serializeCubeFile(createIdentityLut(2)).split('\n').slice(1).join('\n'));
+        assertRgb(applyLUT(lut, 255, 63.75, 0, 'trilinear'), [255, 127.5, 0]);
+    });
+});
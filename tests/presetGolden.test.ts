@@ -0,0 +1,139 @@
+// Golden test: preset bawaan dirender lewat PIPELINE_OPERATIONS (jalur CPU
+// pratinjau/worker) dan lewat processImageExport (ekspor HD di server);
+// keduanya harus sama sampai selisih pembulatan encode.
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import { getExportFormat } from '../utils/exportOptions';
+import { LoadedPreset, loadPresetForExport, processImageExport } from '../utils/exportProcessor';
+import { Lut, createIdentityLut, parseCubeFile, serializeCubeFile } from '../utils/lut';
+import { DEFAULT_PIPELINE_SETTINGS, PIPELINE_OPERATIONS, PipelineSettings, PixelTransform } from '../utils/pipeline';
+import { loadPresetManifest } from '../utils/presetRegistry';
+import { ProcessImageError } from '../utils/processImageErrors';
+import { DEFAULT_TONE_CURVES } from '../utils/toneCurve';
+
+const WIDTH = 48;
+const HEIGHT = 32;
+// Selisih maksimum per kanal (0-255) antara kedua jalur.
+const TOLERANCE = 1;
+
+const SETTINGS: Record<string, PipelineSettings> = {
+    default: DEFAULT_PIPELINE_SETTINGS,
+    edited: {
+        ...DEFAULT_PIPELINE_SETTINGS,
+        exposure: 20,
+        whiteBalance: -15,
+        tint: 10,
+        highlights: -30,
+        shadows: 25,
+        contrast: 15,
+        saturation: -10,
+        vibrance: 20,
+        grain: 35,
+        grainType: 'color',
+        intensity: 80,
+        interpolation: 'trilinear',
+        curves: { ...DEFAULT_TONE_CURVES, luma: [[0, 10], [128, 140], [255, 245]] },
+    },
+};
+
+// Gradasi warna yang menyentuh bayangan, highlight, dan warna jenuh.
+const createSource = (): Uint8ClampedArray => {
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const i = (y * WIDTH + x) * 4;
+            data[i] = Math.round((x / (WIDTH - 1)) * 255);
+            data[i + 1] = Math.round((y / (HEIGHT - 1)) * 255);
+            data[i + 2] = (x * 7 + y * 13) % 256;
+            data[i + 3] = 255;
+        }
+    }
+    return data;
+};
+
+// Jalur pratinjau: setiap operasi di PIPELINE_OPERATIONS per piksel.
+const renderReference = (source: Uint8ClampedArray, settings: PipelineSettings, lut: Lut): Uint8ClampedArray => {
+    const env = { lut, width: WIDTH, height: HEIGHT, originX: 0, originY: 0 };
+    const transforms = PIPELINE_OPERATIONS
+        .map(op => op.prepare(settings, env))
+        .filter((fn): fn is PixelTransform => fn !== null);
+    const data = new Uint8ClampedArray(source);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const i = (y * WIDTH + x) * 4;
+            const rgb: [number, number, number] = [data[i], data[i + 1], data[i + 2]];
+            for (const transform of transforms) transform(rgb, x, y);
+            data.set(rgb, i);
+        }
+    }
+    return data;
+};
+
+const renderExport = async (png: Buffer, settings: PipelineSettings, preset: LoadedPreset): Promise<Buffer> => {
+    const result = await processImageExport(
+        { image: { mime: 'image/png', buffer: png }, settings, stripGps: false, sourceName: 'golden.png' },
+        preset,
+        { format: 'png', quality: 90, longEdge: null, filenameTemplate: '{nama}' },
+        { update: () => {}, throwIfCancelled: () => {} },
+    );
+    assert.equal(result.mime, getExportFormat('png').mime);
+    const { data, info } = await sharp(result.output).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    assert.deepEqual([info.width, info.height], [WIDTH, HEIGHT]);
+    return data;
+};
+
+const maxDifference = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+    let max = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (i % 4 !== 3) max = Math.max(max, Math.abs(a[i] - b[i]));
+    }
+    return max;
+};
+
+// Preset bawaan, plus LUT buatan yang tidak linear agar perbandingan tetap
+// bermakna walau file .cube di repo hanya placeholder.
+const loadPresets = async (): Promise<{ name: string; preset: LoadedPreset | null }[]> => {
+    const manifest = await loadPresetManifest();
+    const ids = manifest.categories.flatMap(category => category.presets.map(preset => preset.id));
+    const bundled = await Promise.all(ids.map(async id => {
+        try {
+            return { name: id, preset: await loadPresetForExport(id, null) };
+        } catch (error) {
+            if (error instanceof ProcessImageError && error.code === 'PRESET_INVALID') return { name: id, preset: null };
+            throw error;
+        }
+    }));
+    const warm = createIdentityLut(17);
+    const data = warm.cube!.data;
+    for (let i = 0; i < data.length; i += 3) {
+        data[i] = Math.sqrt(data[i]);
+        data[i + 2] = data[i + 2] * data[i + 2] * 0.9;
+    }
+    const generated = { label: 'warm', lut: parseCubeFile(serializeCubeFile(warm)), paidPresetIds: [] };
+    return [...bundled, { name: 'warm (buatan)', preset: generated }];
+};
+
+describe('preset: pratinjau CPU dan ekspor server', async () => {
+    const source = createSource();
+    const png = await sharp(Buffer.from(source.buffer), { raw: { width: WIDTH, height: HEIGHT, channels: 4 } }).png().toBuffer();
+
+    for (const { name, preset } of await loadPresets()) {
+        for (const [settingsName, settings] of Object.entries(SETTINGS)) {
+            it(`${name}, pengaturan ${settingsName}`, { skip: preset ? false : 'file .cube belum diisi' }, async () => {
+                const expected = renderReference(source, settings, preset!.lut);
+                const actual = await renderExport(png, settings, preset!);
+                const difference = maxDifference(actual, expected);
+                assert.ok(difference <= TOLERANCE, `selisih maksimum ${difference} > ${TOLERANCE}`);
+            });
+        }
+    }
+
+    it('LUT identitas tanpa grain tidak mengubah sumber', async () => {
+        const settings = { ...DEFAULT_PIPELINE_SETTINGS, grain: 0 };
+        const lut = createIdentityLut(33);
+        assert.ok(maxDifference(renderReference(source, settings, lut), source) <= TOLERANCE);
+        const actual = await renderExport(png, settings, { label: 'identitas', lut, paidPresetIds: [] });
+        assert.ok(maxDifference(actual, source) <= TOLERANCE);
+    });
+});
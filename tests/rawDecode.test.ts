@@ -0,0 +1,70 @@
+// Decode RAW di server: ukuran dibaca sebelum demosaic dan file yang
+// ukurannya tidak terbaca ditolak, baik di ekspor maupun /api/raw-preview.
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import { POST } from '../app/api/raw-preview/route';
+import { decodeRawImage, processImageExport } from '../utils/exportProcessor';
+import { createIdentityLut } from '../utils/lut';
+import { DEFAULT_PIPELINE_SETTINGS } from '../utils/pipeline';
+import { RAW_IMAGE_MIME } from '../utils/rawPreview';
+import { createTestDng } from './rawFixture';
+
+const UNKNOWN_SIZE = { name: 'ProcessImageError', code: 'INVALID_IMAGE', message: 'Ukuran gambar RAW tidak terbaca.' };
+
+// Lolos pengecekan tanda tangan RAW (ORF), tetapi bukan file yang bisa dibaca dcraw.
+const JUNK_RAW = Buffer.concat([Buffer.from('IIRO', 'latin1'), Buffer.alloc(60)]);
+// Mengaku 20000×10000 dengan data hanya dua baris.
+const TRUNCATED_RAW = createTestDng(20000, 10000, 2);
+
+describe('decodeRawImage', () => {
+    it('mendekode RAW yang ukurannya terbaca', () => {
+        const decoded = decodeRawImage(createTestDng(64, 48));
+        assert.deepEqual([decoded.width, decoded.height], [64, 48]);
+        assert.equal(decoded.data.length, 64 * 48 * 4);
+    });
+
+    it('menolak RAW yang ukurannya tidak terbaca', () => {
+        assert.throws(() => decodeRawImage(JUNK_RAW), UNKNOWN_SIZE);
+        assert.throws(() => decodeRawImage(TRUNCATED_RAW), UNKNOWN_SIZE);
+    });
+
+    it('ekspor menolak RAW yang ukurannya tidak terbaca', async () => {
+        await assert.rejects(processImageExport(
+            { image: { mime: RAW_IMAGE_MIME, buffer: TRUNCATED_RAW }, settings: DEFAULT_PIPELINE_SETTINGS, stripGps: false, sourceName: 'besar.dng' },
+            { label: 'identitas', lut: createIdentityLut(2), paidPresetIds: [] },
+            { format: 'jpeg', quality: 90, longEdge: null, filenameTemplate: '{nama}' },
+            { update: () => {}, throwIfCancelled: () => {} },
+        ), UNKNOWN_SIZE);
+    });
+});
+
+describe('/api/raw-preview', () => {
+    const post = (body: Buffer, type: string) => POST(new Request('http://localhost/api/raw-preview', {
+        method: 'POST',
+        headers: { 'Content-Type': type },
+        body,
+    }));
+
+    it('membalas byte JPEG setengah ukuran', async () => {
+        const response = await post(createTestDng(64, 48), RAW_IMAGE_MIME);
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get('content-type'), 'image/jpeg');
+        const { format, width, height } = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+        assert.deepEqual([format, width, height], ['jpeg', 32, 24]);
+    });
+
+    it('menolak RAW yang ukurannya tidak terbaca', async () => {
+        for (const body of [JUNK_RAW, TRUNCATED_RAW]) {
+            const response = await post(body, RAW_IMAGE_MIME);
+            assert.equal(response.status, 400);
+            assert.deepEqual(await response.json(), { error: UNKNOWN_SIZE.message, code: UNKNOWN_SIZE.code, field: 'image' });
+        }
+    });
+
+    it('hanya menerima file RAW', async () => {
+        const jpeg = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#808080' } }).jpeg().toBuffer();
+        const response = await post(jpeg, 'image/jpeg');
+        assert.equal(response.status, 415);
+    });
+});
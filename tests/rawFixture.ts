@@ -0,0 +1,83 @@
+// DNG minimal untuk test: satu IFD berisi data sensor 16-bit pola RGGB
+// tanpa kompresi. dataRows membatasi baris yang benar-benar ditulis, untuk
+// file yang mengaku berukuran besar tetapi datanya kecil.
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_SRATIONAL = 10;
+
+const TYPE_SIZES: Record<number, number> = { [TYPE_BYTE]: 1, [TYPE_ASCII]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_SRATIONAL]: 8 };
+
+type Entry = [tag: number, type: number, values: number[] | string];
+
+const encodeValues = (type: number, values: number[] | string): Buffer => {
+    if (typeof values === 'string') return Buffer.from(`${values}\0`, 'latin1');
+    const buffer = Buffer.alloc(values.length * TYPE_SIZES[type]);
+    values.forEach((value, i) => {
+        if (type === TYPE_BYTE) buffer.writeUInt8(value, i);
+        else if (type === TYPE_SHORT) buffer.writeUInt16LE(value, i * 2);
+        else if (type === TYPE_LONG) buffer.writeUInt32LE(value, i * 4);
+        else {
+            buffer.writeInt32LE(Math.round(value * 10000), i * 8);
+            buffer.writeInt32LE(10000, i * 8 + 4);
+        }
+    });
+    return buffer;
+};
+
+export const createTestDng = (width: number, height: number, dataRows = height): Buffer => {
+    const pixels = Buffer.alloc(width * dataRows * 2);
+    for (let y = 0; y < dataRows; y++) {
+        for (let x = 0; x < width; x++) {
+            const site = (y % 2) * 2 + (x % 2);
+            pixels.writeUInt16LE([30000, 20000, 20000, 10000][site] + (x % 256) * 20, (y * width + x) * 2);
+        }
+    }
+
+    const entries: Entry[] = [
+        [254, TYPE_LONG, [0]],
+        [256, TYPE_LONG, [width]],
+        [257, TYPE_LONG, [height]],
+        [258, TYPE_SHORT, [16]],
+        [259, TYPE_SHORT, [1]],
+        [262, TYPE_SHORT, [32803]],
+        [271, TYPE_ASCII, 'TestCorp'],
+        [272, TYPE_ASCII, 'TestCam'],
+        [273, TYPE_LONG, [0]],
+        [277, TYPE_SHORT, [1]],
+        [278, TYPE_LONG, [height]],
+        [279, TYPE_LONG, [width * height * 2]],
+        [33421, TYPE_SHORT, [2, 2]],
+        [33422, TYPE_BYTE, [0, 1, 1, 2]],
+        [50706, TYPE_BYTE, [1, 4, 0, 0]],
+        [50717, TYPE_LONG, [65535]],
+        [50721, TYPE_SRATIONAL, [1, 0, 0, 0, 1, 0, 0, 0, 1]],
+        [50778, TYPE_SHORT, [21]],
+    ];
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const ifd = Buffer.alloc(ifdSize);
+    const extras: Buffer[] = [];
+    let extraOffset = 8 + ifdSize;
+    ifd.writeUInt16LE(entries.length, 0);
+    const values = entries.map(([, type, value]) => encodeValues(type, value));
+    const dataOffset = extraOffset + values.reduce((sum, value) => sum + (value.length > 4 ? value.length + (value.length % 2) : 0), 0);
+
+    entries.forEach(([tag, type, value], i) => {
+        const entry = 2 + i * 12;
+        const encoded = tag === 273 ? encodeValues(TYPE_LONG, [dataOffset]) : values[i];
+        ifd.writeUInt16LE(tag, entry);
+        ifd.writeUInt16LE(type, entry + 2);
+        ifd.writeUInt32LE(typeof value === 'string' ? encoded.length : value.length, entry + 4);
+        if (encoded.length <= 4) {
+            encoded.copy(ifd, entry + 8);
+        } else {
+            ifd.writeUInt32LE(extraOffset, entry + 8);
+            extras.push(encoded, Buffer.alloc(encoded.length % 2));
+            extraOffset += encoded.length + (encoded.length % 2);
+        }
+    });
+
+    const header = Buffer.from([0x49, 0x49, 42, 0, 8, 0, 0, 0]);
+    return Buffer.concat([header, ifd, ...extras, pixels]);
+};
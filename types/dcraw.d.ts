@@ -0,0 +1,19 @@
+// Paket dcraw (port Emscripten dari dcraw.c) tidak menyertakan tipe.
+declare module 'dcraw' {
+    interface DcrawOptions {
+        verbose?: boolean;
+        identify?: boolean;
+        extractThumbnail?: boolean;
+        useCameraWhiteBalance?: boolean;
+        useAverageWhiteBalance?: boolean;
+        setNoAutoBrightnessMode?: boolean;
+        setHalfSizeMode?: boolean;
+        use16BitMode?: boolean;
+        exportAsTiff?: boolean;
+    }
+
+    // Mengembalikan isi file keluaran, atau teks stdout bila tidak ada file
+    // yang dihasilkan (mode identify atau decode gagal).
+    const dcraw: (file: Uint8Array, options?: DcrawOptions) => Uint8Array | string;
+    export default dcraw;
+}
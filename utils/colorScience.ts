@@ -0,0 +1,99 @@
+// Konversi sRGB ↔ linear dan model penyesuaian (exposure, white balance,
+// tone curve) yang dipakai pipeline.
+import { Vec3 } from './lut';
+
+export const srgbToLinear = (v: number): number =>
+    v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (v: number): number =>
+    v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// Input pipeline selalu 8-bit, jadi decode cukup lewat tabel.
+export const SRGB_TO_LINEAR_8BIT = (() => {
+    const table = new Float32Array(256);
+    for (let i = 0; i < 256; i++) table[i] = srgbToLinear(i / 255);
+    return table;
+})();
+
+export const luminance = (r: number, g: number, b: number): number => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+export const smoothstep = (edge0: number, edge1: number, x: number): number => {
+    const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+// Slider -100..100 → ±2 stop.
+export const exposureGain = (exposure: number): number => Math.pow(2, exposure / 50);
+
+// Warna linear dari radiator benda hitam (pendekatan Tanner Helland),
+// cukup akurat untuk 1500-15000K.
+export const kelvinToLinearRgb = (kelvin: number): Vec3 => {
+    const t = kelvin / 100;
+    let r: number, g: number, b: number;
+    if (t <= 66) {
+        r = 255;
+        g = 99.4708025861 * Math.log(t) - 161.1195681661;
+        b = t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+    } else {
+        r = 329.698727446 * Math.pow(t - 60, -0.1332047592);
+        g = 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+        b = 255;
+    }
+    const clamp = (v: number) => srgbToLinear(Math.max(0, Math.min(255, v)) / 255);
+    return [clamp(r), clamp(g), clamp(b)];
+};
+
+export const NEUTRAL_KELVIN = 6500;
+
+// Slider suhu -100..100: positif = lebih hangat (iluminan ~3700K),
+// negatif = lebih dingin (~11500K).
+export const temperatureToKelvin = (temperature: number): number =>
+    NEUTRAL_KELVIN * Math.pow(2, -temperature / 120);
+
+// Gain per kanal untuk model suhu/tint. Tint positif ke magenta, negatif
+// ke hijau. Gain dinormalisasi agar luminans abu-abu netral tetap.
+export const whiteBalanceGains = (temperature: number, tint = 0): Vec3 => {
+    const target = kelvinToLinearRgb(temperatureToKelvin(temperature));
+    const neutral = kelvinToLinearRgb(NEUTRAL_KELVIN);
+    const gains: Vec3 = [target[0] / neutral[0], target[1] / neutral[1], target[2] / neutral[2]];
+    gains[1] *= Math.pow(2, -tint / 200);
+    const norm = luminance(gains[0], gains[1], gains[2]);
+    return [gains[0] / norm, gains[1] / norm, gains[2] / norm];
+};
+
+// Kurva tone berbasis luminans perseptual (0-1, bisa >1 setelah exposure
+// dinaikkan). amount -1..1. Koefisien dipilih agar kurva tetap monoton
+// (tidak membalik urutan terang-gelap) pada amount ekstrem.
+export const highlightsCurve = (lp: number, amount: number): number => {
+    const weight = smoothstep(0.25, 1, Math.min(lp, 1));
+    // Negatif: menarik highlight (termasuk yang terbakar) ke bawah putih.
+    if (amount < 0) return lp + amount * 0.25 * weight;
+    return lp + amount * 0.6 * weight * Math.max(0, 1 - lp);
+};
+
+export const shadowsCurve = (lp: number, amount: number): number => {
+    const lifted = 4 * lp * (1 - smoothstep(0, 0.6, lp));
+    return lp + amount * (amount > 0 ? 0.3 : 0.2) * lifted;
+};
+
+// Whites/blacks menggeser titik putih/hitam; bobotnya dibatasi agar kurva
+// tetap monoton pada amount ±1.
+export const whitesCurve = (lp: number, amount: number): number =>
+    lp + amount * 0.25 * smoothstep(0.5, 1, Math.min(lp, 1));
+
+export const blacksCurve = (lp: number, amount: number): number =>
+    lp + amount * 0.15 * (1 - smoothstep(0, 0.5, lp));
+
+// Kurva S di sekitar abu-abu tengah (0.5 perseptual tetap di tempat).
+// Di atas putih tidak diubah agar highlight hasil exposure tidak terpotong.
+export const contrastCurve = (lp: number, amount: number): number => {
+    if (lp >= 1) return lp;
+    return lp + amount * 0.5 * (smoothstep(0, 1, lp) - lp);
+};
+
+// Saturasi relatif piksel (0 = abu-abu, 1 = warna penuh) untuk vibrance:
+// warna yang sudah jenuh mendapat dorongan lebih kecil.
+export const relativeSaturation = (r: number, g: number, b: number): number => {
+    const max = Math.max(r, g, b);
+    return max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+};
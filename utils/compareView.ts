@@ -0,0 +1,69 @@
+// Zoom dan geser area pembanding sebelum/sesudah. Posisi disimpan sebagai
+// titik tengah tampilan dalam koordinat gambar 0-1, jadi satu nilai berlaku
+// untuk kedua panel dan untuk potongan resolusi penuh.
+
+export type CompareMode = 'wipe' | 'wipe-vertical' | 'side-by-side' | 'hold';
+
+export const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+    { id: 'wipe', label: 'Geser ↔' },
+    { id: 'wipe-vertical', label: 'Geser ↕' },
+    { id: 'side-by-side', label: 'Berdampingan' },
+    { id: 'hold', label: 'Tahan' },
+];
+
+export interface CompareView {
+    // 1 = seluruh gambar pas di panel
+    zoom: number;
+    centerX: number;
+    centerY: number;
+}
+
+export const FIT_VIEW: CompareView = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+export const MAX_COMPARE_ZOOM = 32;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Tepi gambar tidak pernah ditarik melewati tepi panel.
+export const clampView = (view: CompareView): CompareView => {
+    const zoom = clamp(view.zoom, 1, MAX_COMPARE_ZOOM);
+    const half = 0.5 / zoom;
+    return {
+        zoom,
+        centerX: clamp(view.centerX, half, 1 - half),
+        centerY: clamp(view.centerY, half, 1 - half),
+    };
+};
+
+// Titik panel (0-1) → titik gambar (0-1).
+export const viewToImage = (view: CompareView, panelX: number, panelY: number): [number, number] => [
+    view.centerX + (panelX - 0.5) / view.zoom,
+    view.centerY + (panelY - 0.5) / view.zoom,
+];
+
+// Zoom dengan titik gambar di bawah kursor/jari tetap di tempatnya.
+export const zoomViewAt = (view: CompareView, zoom: number, panelX: number, panelY: number): CompareView => {
+    const [imageX, imageY] = viewToImage(view, panelX, panelY);
+    const next = clamp(zoom, 1, MAX_COMPARE_ZOOM);
+    return clampView({
+        zoom: next,
+        centerX: imageX - (panelX - 0.5) / next,
+        centerY: imageY - (panelY - 0.5) / next,
+    });
+};
+
+// dx/dy dalam pecahan lebar/tinggi panel.
+export const panView = (view: CompareView, dx: number, dy: number): CompareView =>
+    clampView({ ...view, centerX: view.centerX - dx / view.zoom, centerY: view.centerY - dy / view.zoom });
+
+// Bagian gambar (0-1) yang terlihat di panel.
+export const visibleRegion = (view: CompareView): { x: number; y: number; width: number; height: number } => ({
+    x: view.centerX - 0.5 / view.zoom,
+    y: view.centerY - 0.5 / view.zoom,
+    width: 1 / view.zoom,
+    height: 1 / view.zoom,
+});
+
+// CSS transform untuk elemen seukuran panel dengan transform-origin 0 0.
+export const viewTransform = (view: CompareView): string =>
+    `translate(${(0.5 - view.centerX * view.zoom) * 100}%, ${(0.5 - view.centerY * view.zoom) * 100}%) scale(${view.zoom})`;
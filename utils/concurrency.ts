@@ -0,0 +1,25 @@
+// Menjalankan fn untuk setiap item dengan paling banyak `limit` sekaligus.
+// Urutan hasil sama dengan urutan item; error pertama menggagalkan semuanya
+// dan item yang belum dimulai tidak dijalankan.
+export const mapWithConcurrency = async <T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+};
@@ -0,0 +1,37 @@
+// Riwayat undo/redo yang immutable: setiap langkah menghasilkan objek baru
+// sehingga bisa disimpan langsung di state React.
+export interface EditHistory<T> {
+    past: T[];
+    present: T;
+    future: T[];
+}
+
+// Langkah terlama dibuang bila riwayat melebihi batas ini.
+export const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T): EditHistory<T> => ({ past: [], present, future: [] });
+
+// Langkah baru menghapus semua langkah redo.
+export const pushHistory = <T>(history: EditHistory<T>, next: T): EditHistory<T> => ({
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+});
+
+export const undoHistory = <T>(history: EditHistory<T>): EditHistory<T> => {
+    if (history.past.length === 0) return history;
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+    };
+};
+
+export const redoHistory = <T>(history: EditHistory<T>): EditHistory<T> => {
+    if (history.future.length === 0) return history;
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+    };
+};
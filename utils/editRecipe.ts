@@ -0,0 +1,142 @@
+// Resep edit: preset + semua slider dalam bentuk yang bisa disimpan
+// (localStorage), diunduh sebagai JSON, atau dibagikan lewat parameter URL.
+import { GRAIN_TYPES, GrainType } from './grain';
+import { LUT_INTERPOLATIONS, LutInterpolation } from './lut';
+import { DEFAULT_PIPELINE_SETTINGS, NumericSetting, PipelineSettings, SETTING_RANGES } from './pipeline';
+import { TONE_CURVE_CHANNELS, ToneCurveError, parseToneCurves } from './toneCurve';
+
+// Preset dan slider untuk satu foto. Setiap foto dalam batch menyimpan
+// pengaturannya sendiri; slider di sidebar selalu milik foto yang aktif.
+export interface PhotoEdit {
+    presetId: string | null;
+    // Preset kedua yang dicampur sebanyak settings.blend persen
+    blendPresetId: string | null;
+    settings: PipelineSettings;
+}
+
+export const RECIPE_VERSION = 1;
+export const RECIPE_URL_PARAM = 'resep';
+export const RECIPE_STORAGE_KEY = 'masarif-edit';
+// Batas teks resep yang mau dibaca (file atau parameter URL).
+export const MAX_RECIPE_LENGTH = 16 * 1024;
+
+export class RecipeParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RecipeParseError';
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalPresetId = (value: unknown, key: string): string | null => {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string' || !value || value.length > 100) {
+        throw new RecipeParseError(`${key} harus berupa id preset.`);
+    }
+    return value;
+};
+
+// Urutan field selalu sama, jadi hasilnya juga bisa dipakai untuk
+// membandingkan dua edit (riwayat undo).
+export const serializeRecipe = (edit: PhotoEdit): string => {
+    const { settings } = edit;
+    return JSON.stringify({
+        version: RECIPE_VERSION,
+        presetId: edit.presetId,
+        blendPresetId: edit.blendPresetId,
+        settings: {
+            ...Object.fromEntries(Object.keys(SETTING_RANGES).map(key => [key, settings[key as NumericSetting]])),
+            grainType: settings.grainType,
+            grainSeed: settings.grainSeed,
+            interpolation: settings.interpolation,
+            curves: Object.fromEntries(TONE_CURVE_CHANNELS.map(channel => [channel, settings.curves[channel]])),
+        },
+    });
+};
+
+// Slider yang tidak ada di resep (misalnya resep dari versi lama) memakai
+// nilai default; nilai yang ada harus berada dalam rentangnya.
+export const parseRecipe = (text: string): PhotoEdit => {
+    if (text.length > MAX_RECIPE_LENGTH) {
+        throw new RecipeParseError('Resep terlalu besar.');
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new RecipeParseError('Resep bukan JSON yang valid.');
+    }
+    if (!isObject(raw) || !isObject(raw.settings)) {
+        throw new RecipeParseError('Resep harus berisi objek settings.');
+    }
+    if (typeof raw.version !== 'number' || raw.version > RECIPE_VERSION) {
+        throw new RecipeParseError('Versi resep tidak didukung.');
+    }
+    const rawSettings = raw.settings;
+    const settings: PipelineSettings = { ...DEFAULT_PIPELINE_SETTINGS };
+    for (const [key, [min, max]] of Object.entries(SETTING_RANGES) as [NumericSetting, [number, number]][]) {
+        const value = rawSettings[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+            throw new RecipeParseError(`${key} harus angka antara ${min} dan ${max}.`);
+        }
+        settings[key] = value;
+    }
+    if (rawSettings.grainType !== undefined) {
+        if (!GRAIN_TYPES.includes(rawSettings.grainType as GrainType)) {
+            throw new RecipeParseError(`grainType harus salah satu dari ${GRAIN_TYPES.join(', ')}.`);
+        }
+        settings.grainType = rawSettings.grainType as GrainType;
+    }
+    if (rawSettings.grainSeed !== undefined) {
+        const seed = rawSettings.grainSeed;
+        if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+            throw new RecipeParseError('grainSeed harus bilangan bulat 32-bit.');
+        }
+        settings.grainSeed = seed;
+    }
+    if (rawSettings.interpolation !== undefined) {
+        if (!LUT_INTERPOLATIONS.includes(rawSettings.interpolation as LutInterpolation)) {
+            throw new RecipeParseError(`interpolation harus salah satu dari ${LUT_INTERPOLATIONS.join(', ')}.`);
+        }
+        settings.interpolation = rawSettings.interpolation as LutInterpolation;
+    }
+    if (rawSettings.curves !== undefined) {
+        try {
+            settings.curves = parseToneCurves(rawSettings.curves);
+        } catch (error) {
+            if (error instanceof ToneCurveError) throw new RecipeParseError(error.message);
+            throw error;
+        }
+    }
+    return {
+        presetId: optionalPresetId(raw.presetId, 'presetId'),
+        blendPresetId: optionalPresetId(raw.blendPresetId, 'blendPresetId'),
+        settings,
+    };
+};
+
+// base64url dari JSON UTF-8, aman dipakai di query string tanpa di-escape.
+export const encodeRecipeParam = (edit: PhotoEdit): string => {
+    const bytes = new TextEncoder().encode(serializeRecipe(edit));
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeRecipeParam = (param: string): PhotoEdit => {
+    if (param.length > MAX_RECIPE_LENGTH || !/^[A-Za-z0-9_-]*$/.test(param)) {
+        throw new RecipeParseError('Link resep rusak.');
+    }
+    const base64 = param.replace(/-/g, '+').replace(/_/g, '/');
+    let text: string;
+    try {
+        const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+        text = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    } catch {
+        throw new RecipeParseError('Link resep rusak.');
+    }
+    return parseRecipe(text);
+};
@@ -0,0 +1,192 @@
+// Metadata JPEG: EXIF (APP1) dan profil ICC (APP2). Dipakai klien untuk
+// membaca info saat upload dan server untuk menyalin metadata ke hasil ekspor
+// (lihat utils/imageExport.ts).
+
+export interface JpegMetadata {
+    // Payload APP1 lengkap, diawali "Exif\0\0".
+    exif: Uint8Array | null;
+    // Profil ICC utuh (gabungan semua potongan APP2).
+    icc: Uint8Array | null;
+    // Orientasi EXIF 1-8; 1 bila tidak ada.
+    orientation: number;
+    hasGps: boolean;
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+const TAG_ORIENTATION = 274;
+const TAG_GPS_IFD = 34853;
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: ArrayLike<number> | string): boolean => {
+    for (let i = 0; i < prefix.length; i++) {
+        const expected = typeof prefix === 'string' ? prefix.charCodeAt(i) : prefix[i];
+        if (bytes[offset + i] !== expected) return false;
+    }
+    return true;
+};
+
+interface JpegSegment {
+    marker: number;
+    // Offset dan panjang payload (setelah 2 byte panjang).
+    start: number;
+    length: number;
+}
+
+// Segmen header sampai SOS; data gambar setelahnya tidak perlu dibaca.
+const readSegments = (bytes: Uint8Array): JpegSegment[] => {
+    const segments: JpegSegment[] = [];
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return segments;
+    let pos = 2;
+    while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+        const marker = bytes[pos + 1];
+        if (marker === 0xff) {
+            pos++;
+            continue;
+        }
+        const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+        if (length < 2 || pos + 2 + length > bytes.length) break;
+        segments.push({ marker, start: pos + 4, length: length - 2 });
+        if (marker === 0xda) break;
+        pos += 2 + length;
+    }
+    return segments;
+};
+
+class ExifTiff {
+    private view: DataView;
+    private little: boolean;
+
+    // bytes adalah payload APP1; struktur TIFF dimulai setelah "Exif\0\0".
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset + 6, bytes.byteLength - 6);
+        this.little = bytes[6] === 0x49;
+    }
+
+    get size(): number {
+        return this.view.byteLength;
+    }
+
+    u16(offset: number): number {
+        return this.view.getUint16(offset, this.little);
+    }
+
+    u32(offset: number): number {
+        return this.view.getUint32(offset, this.little);
+    }
+
+    setU16(offset: number, value: number): void {
+        this.view.setUint16(offset, value, this.little);
+    }
+
+    fill(offset: number, length: number): void {
+        const start = Math.max(0, offset), end = Math.min(this.size, offset + length);
+        if (end > start) this.bytes.fill(0, 6 + start, 6 + end);
+    }
+
+    // Offset entri IFD0 untuk tag tertentu, atau -1.
+    findIfd0Entry(tag: number): number {
+        if (this.size < 8) return -1;
+        const ifd = this.u32(4);
+        if (ifd + 2 > this.size) return -1;
+        const count = this.u16(ifd);
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > this.size) return -1;
+            if (this.u16(entry) === tag) return entry;
+        }
+        return -1;
+    }
+}
+
+// Matriks canvas setTransform(a, b, c, d, e, f) yang menggambar gambar
+// berukuran w×h mentah ke posisi tegak sesuai orientasi EXIF.
+export const orientationTransform = (orientation: number, w: number, h: number): [number, number, number, number, number, number] => {
+    switch (orientation) {
+        case 2: return [-1, 0, 0, 1, w, 0];
+        case 3: return [-1, 0, 0, -1, w, h];
+        case 4: return [1, 0, 0, -1, 0, h];
+        case 5: return [0, 1, 1, 0, 0, 0];
+        case 6: return [0, 1, -1, 0, h, 0];
+        case 7: return [0, -1, -1, 0, h, w];
+        case 8: return [0, -1, 1, 0, 0, w];
+        default: return [1, 0, 0, 1, 0, 0];
+    }
+};
+
+// Orientasi 5-8 menukar lebar dan tinggi.
+export const orientedSize = (orientation: number, w: number, h: number): { width: number; height: number } =>
+    orientation >= 5 && orientation <= 8 ? { width: h, height: w } : { width: w, height: h };
+
+const isExifPayload = (payload: Uint8Array): boolean => payload.length > 14 && startsWith(payload, 0, EXIF_HEADER);
+
+export const readJpegMetadata = (bytes: Uint8Array): JpegMetadata => {
+    let exif: Uint8Array | null = null;
+    const iccChunks: { index: number; data: Uint8Array }[] = [];
+    for (const segment of readSegments(bytes)) {
+        const payload = bytes.subarray(segment.start, segment.start + segment.length);
+        if (segment.marker === 0xe1 && !exif && isExifPayload(payload)) {
+            exif = payload;
+        } else if (segment.marker === 0xe2 && payload.length > 14 && startsWith(payload, 0, ICC_HEADER)) {
+            iccChunks.push({ index: payload[12], data: payload.subarray(14) });
+        }
+    }
+
+    let icc: Uint8Array | null = null;
+    if (iccChunks.length > 0) {
+        iccChunks.sort((a, b) => a.index - b.index);
+        icc = new Uint8Array(iccChunks.reduce((sum, chunk) => sum + chunk.data.length, 0));
+        let offset = 0;
+        for (const chunk of iccChunks) {
+            icc.set(chunk.data, offset);
+            offset += chunk.data.length;
+        }
+    }
+
+    let orientation = 1;
+    let hasGps = false;
+    if (exif) {
+        const tiff = new ExifTiff(exif);
+        const entry = tiff.findIfd0Entry(TAG_ORIENTATION);
+        if (entry >= 0) {
+            const value = tiff.u16(entry + 8);
+            if (value >= 1 && value <= 8) orientation = value;
+        }
+        hasGps = tiff.findIfd0Entry(TAG_GPS_IFD) >= 0;
+    }
+    return { exif, icc, orientation, hasGps };
+};
+
+// Salinan payload EXIF yang sudah disesuaikan untuk file hasil: orientasi
+// direset ke 1 (piksel sudah diputar) dan, bila diminta, data GPS dihapus.
+export const prepareExifForExport = (exif: Uint8Array, options: { stripGps: boolean }): Uint8Array => {
+    const copy = new Uint8Array(exif);
+    const tiff = new ExifTiff(copy);
+
+    const orientationEntry = tiff.findIfd0Entry(TAG_ORIENTATION);
+    if (orientationEntry >= 0) tiff.setU16(orientationEntry + 8, 1);
+
+    const gpsEntry = options.stripGps ? tiff.findIfd0Entry(TAG_GPS_IFD) : -1;
+    if (gpsEntry >= 0) {
+        // Isi IFD GPS (entri dan nilai di luar entri) ditimpa nol...
+        const gpsIfd = tiff.u32(gpsEntry + 8);
+        if (gpsIfd + 2 <= tiff.size) {
+            const count = tiff.u16(gpsIfd);
+            for (let i = 0; i < count && gpsIfd + 2 + i * 12 + 12 <= tiff.size; i++) {
+                const entry = gpsIfd + 2 + i * 12;
+                const type = tiff.u16(entry + 2);
+                const size = ([0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8][type] ?? 1) * tiff.u32(entry + 4);
+                if (size > 4) tiff.fill(tiff.u32(entry + 8), size);
+            }
+            tiff.fill(gpsIfd, 2 + count * 12 + 4);
+        }
+        // ...lalu entri penunjuknya dikeluarkan dari IFD0.
+        const ifd0 = tiff.u32(4);
+        const count = tiff.u16(ifd0);
+        const end = ifd0 + 2 + count * 12 + 4;
+        copy.copyWithin(6 + gpsEntry, 6 + gpsEntry + 12, 6 + end);
+        tiff.fill(end - 12, 12);
+        tiff.setU16(ifd0, count - 1);
+    }
+    return copy;
+};
@@ -0,0 +1,91 @@
+// Khusus server: daftar job ekspor HD di memori untuk progres nyata dan
+// pembatalan. Disimpan di globalThis karena tiap route di-bundle terpisah
+// dan harus melihat daftar yang sama.
+import { ExportJobStage, ExportJobStatus, isFinalExportStage } from './exportProgress';
+import { ProcessImageError } from './processImageErrors';
+
+// Job selesai disimpan 1 menit agar pemantau yang terlambat tetap menerima
+// status akhir.
+const FINISHED_JOB_TTL_MS = 60 * 1000;
+const MAX_TRACKED_JOBS = 1000;
+
+type StatusListener = (status: ExportJobStatus) => void;
+
+export class ExportJob {
+    readonly id: string;
+    status: ExportJobStatus = { stage: 'queued', progress: 0 };
+    private readonly controller = new AbortController();
+    private readonly listeners = new Set<StatusListener>();
+    private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(id: string) {
+        this.id = id;
+    }
+
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    get finished(): boolean {
+        return isFinalExportStage(this.status.stage);
+    }
+
+    // Listener tidak dipanggil dengan status saat ini; baca job.status sendiri.
+    subscribe(listener: StatusListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    update(stage: ExportJobStage, progress: number) {
+        if (this.finished) return;
+        const rounded = Math.max(0, Math.min(100, Math.round(progress)));
+        if (stage === this.status.stage && rounded === this.status.progress) return;
+        this.status = { stage, progress: rounded };
+        this.listeners.forEach(listener => listener(this.status));
+        if (this.finished) this.expireAfter(FINISHED_JOB_TTL_MS);
+    }
+
+    cancel() {
+        if (this.finished) return;
+        this.controller.abort();
+        this.update('cancelled', this.status.progress);
+    }
+
+    // Dipanggil di antara potongan kerja agar job yang dibatalkan berhenti.
+    throwIfCancelled() {
+        if (this.cancelled) throw new ProcessImageError('EXPORT_CANCELLED');
+    }
+
+    private expireAfter(ms: number) {
+        if (this.expiryTimer) clearTimeout(this.expiryTimer);
+        this.expiryTimer = setTimeout(() => {
+            if (jobs.get(this.id) === this) jobs.delete(this.id);
+        }, ms);
+        this.expiryTimer.unref?.();
+    }
+}
+
+const globalStore = globalThis as typeof globalThis & { __exportJobs?: Map<string, ExportJob> };
+const jobs = globalStore.__exportJobs ?? (globalStore.__exportJobs = new Map<string, ExportJob>());
+
+export const findExportJob = (id: string): ExportJob | null => jobs.get(id) ?? null;
+
+// Hanya permintaan yang memulai ekspor yang membuat job; pemantau progres
+// dan pembatalan hanya mencari job yang sudah ada.
+export const beginExportJob = (id: string): ExportJob => {
+    if (jobs.has(id)) {
+        throw new ProcessImageError('INVALID_BODY', 'jobId sudah dipakai.', 'jobId');
+    }
+    if (jobs.size >= MAX_TRACKED_JOBS) {
+        throw new ProcessImageError('SERVER_BUSY');
+    }
+    const job = new ExportJob(id);
+    jobs.set(id, job);
+    return job;
+};
+
+export const cancelExportJob = (id: string): ExportJob | null => {
+    const job = findExportJob(id);
+    job?.cancel();
+    return job;
+};
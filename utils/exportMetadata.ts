@@ -0,0 +1,20 @@
+// Khusus server: metadata foto sumber (EXIF, orientasi) yang dibawa ke hasil
+// ekspor. sharp sudah memutar piksel sesuai tag Orientation, jadi tag itu
+// direset ke 1 di EXIF hasil.
+import { JpegMetadata, readJpegMetadata } from './exif';
+import { getIccProfile } from './iccProfile';
+
+export type SourceMetadata = Pick<JpegMetadata, 'exif' | 'orientation'>;
+
+const EMPTY_METADATA: SourceMetadata = { exif: null, orientation: 1 };
+
+// Baru JPEG yang dibaca; format lain (PNG/WebP/TIFF/RAW) tanpa EXIF.
+export const readSourceMetadata = (mime: string, buffer: Uint8Array): SourceMetadata => {
+    if (mime !== 'image/jpeg') return EMPTY_METADATA;
+    const { exif, orientation } = readJpegMetadata(buffer);
+    return { exif, orientation };
+};
+
+// Piksel sudah dikonversi ke sRGB saat didekode, jadi semua hasil ekspor
+// diberi profil sRGB yang sama, apa pun profil sumbernya.
+export const exportIccProfile = (): Uint8Array => getIccProfile('srgb');
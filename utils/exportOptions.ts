@@ -0,0 +1,80 @@
+// Opsi ekspor HD (format, kualitas, ukuran, nama file). Dipakai klien untuk
+// form di modal dan server untuk validasi serta encoding.
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff16';
+
+export interface ExportFormatInfo {
+    id: ExportFormat;
+    label: string;
+    extension: string;
+    mime: string;
+    // Format lossless mengabaikan quality.
+    lossy: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { id: 'jpeg', label: 'JPEG', extension: 'jpg', mime: 'image/jpeg', lossy: true },
+    { id: 'png', label: 'PNG', extension: 'png', mime: 'image/png', lossy: false },
+    { id: 'webp', label: 'WebP', extension: 'webp', mime: 'image/webp', lossy: true },
+    { id: 'avif', label: 'AVIF', extension: 'avif', mime: 'image/avif', lossy: true },
+    { id: 'tiff16', label: 'TIFF 16-bit', extension: 'tif', mime: 'image/tiff', lossy: false },
+];
+
+export const getExportFormat = (id: ExportFormat): ExportFormatInfo =>
+    EXPORT_FORMATS.find(format => format.id === id) ?? EXPORT_FORMATS[0];
+
+// null = resolusi asli.
+export const RESIZE_PRESETS: { id: string; label: string; longEdge: number | null }[] = [
+    { id: 'original', label: 'Ukuran asli', longEdge: null },
+    { id: 'instagram', label: 'Instagram (1080px)', longEdge: 1080 },
+    { id: 'instagram-portrait', label: 'Instagram 4:5 (1350px)', longEdge: 1350 },
+    { id: 'web', label: 'Web (2048px)', longEdge: 2048 },
+    { id: 'print-a4', label: 'Cetak A4 300dpi (3508px)', longEdge: 3508 },
+    { id: 'print-a3', label: 'Cetak A3 300dpi (4961px)', longEdge: 4961 },
+];
+
+// Batas jumlah foto per batch (/api/process-batch).
+export const MAX_BATCH_ITEMS = 30;
+
+export const QUALITY_RANGE: [number, number] = [1, 100];
+export const LONG_EDGE_RANGE: [number, number] = [256, 16384];
+export const MAX_FILENAME_TEMPLATE_LENGTH = 120;
+
+// {nama} = nama file asli tanpa ekstensi, {preset} = nama preset.
+export const DEFAULT_FILENAME_TEMPLATE = '{nama}_{preset}';
+const FALLBACK_FILENAME = 'hasil_HD_by_masarif_id';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    quality: number;
+    longEdge: number | null;
+    filenameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'jpeg',
+    quality: 90,
+    longEdge: null,
+    filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+};
+
+const stripExtension = (name: string): string => name.replace(/\.[^./\\]+$/, '');
+
+export const buildExportFilename = (template: string, values: { sourceName: string; presetName: string }, format: ExportFormat): string => {
+    const base = template
+        .replace(/\{nama\}/g, stripExtension(values.sourceName))
+        .replace(/\{preset\}/g, values.presetName)
+        .replace(/[^A-Za-z0-9 _.-]+/g, '_')
+        .replace(/\s+/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^[._-]+|[._-]+$/g, '')
+        .slice(0, 150);
+    return `${base || FALLBACK_FILENAME}.${getExportFormat(format).extension}`;
+};
+
+// Nama file hasil buildExportFilename hanya berisi karakter ASCII aman,
+// jadi cukup dikutip tanpa filename*.
+export const buildContentDisposition = (filename: string): string => `attachment; filename="${filename}"`;
+
+export const readContentDispositionFilename = (header: string | null): string | null =>
+    header?.match(/filename="([^"]+)"/)?.[1] ?? null;
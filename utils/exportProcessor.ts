@@ -0,0 +1,195 @@
+// Khusus server: alur ekspor HD satu foto (decode → putar/resize → pipeline
+// → encode), dipakai /api/process-image dan /api/process-batch.
+import sharp from 'sharp';
+import { readSourceMetadata } from './exportMetadata';
+import { ExportOptions, buildExportFilename, getExportFormat } from './exportOptions';
+import { ExportJobStage } from './exportProgress';
+import { encodeExport } from './imageExport';
+import { License, isPresetUnlocked } from './license';
+import { Lut, LutParseError, mixLuts } from './lut';
+import { PipelineImage, PipelineSettings, renderPipeline } from './pipeline';
+import { CUSTOM_LUT_PRESET_ID } from './presetManifest';
+import { getPreset, loadPresetManifest, readPresetLut } from './presetRegistry';
+import { ProcessImageError } from './processImageErrors';
+import { CustomLutUpload, MAX_IMAGE_PIXELS, assertImagePixels } from './processImageRequest';
+import { DecodedRaw, RawDecodeError, decodeRaw, readRawOutputSize } from './rawDecoder';
+import { RAW_IMAGE_MIME } from './rawPreview';
+import type { Watermark } from './watermark';
+
+// Pipeline dijalankan per potongan baris; di antaranya event loop diberi
+// kesempatan mengirim progres dan menerima pembatalan.
+const RENDER_BAND_ROWS = 64;
+// Porsi progres (persen) yang selesai setelah tiap tahap.
+const PROGRESS_DECODED = 10;
+const PROGRESS_RENDERED = 90;
+
+// Cukup dipenuhi ExportJob; batch memakai adaptor per foto.
+export interface ExportTask {
+    update: (stage: ExportJobStage, progress: number) => void;
+    throwIfCancelled: () => void;
+}
+
+export interface ExportInput {
+    image: { mime: string; buffer: Buffer };
+    settings: PipelineSettings;
+    stripGps: boolean;
+    sourceName: string;
+}
+
+export interface ExportResult {
+    output: Buffer;
+    mime: string;
+    filename: string;
+}
+
+export interface LoadedPreset {
+    // Nama untuk {preset} di template nama file.
+    label: string;
+    lut: Lut;
+    // Preset berbayar yang ikut membentuk LUT (termasuk preset campuran).
+    paidPresetIds: string[];
+}
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+// Preset hanya bisa dipilih lewat id yang terdaftar di manifest, atau
+// CUSTOM_LUT_PRESET_ID bila LUT sendiri ikut diunggah.
+export const loadPresetForExport = async (presetId: string, customLut: CustomLutUpload | null, field = 'presetId'): Promise<LoadedPreset> => {
+    if (presetId === CUSTOM_LUT_PRESET_ID) {
+        if (!customLut) {
+            throw new ProcessImageError('INVALID_LUT', 'File LUT sendiri tidak ikut terkirim.', 'lut');
+        }
+        return { label: customLut.name.replace(/\.cube$/i, ''), lut: customLut.lut, paidPresetIds: [] };
+    }
+    const preset = await getPreset(presetId);
+    if (!preset) {
+        throw new ProcessImageError('PRESET_NOT_FOUND', undefined, field);
+    }
+    const lut = await readPresetLut(preset).catch((error) => {
+        if (error instanceof LutParseError) {
+            throw new ProcessImageError('PRESET_INVALID', `File preset tidak valid. ${error.message}`);
+        }
+        throw error;
+    });
+    return { label: preset.label, lut, paidPresetIds: preset.paid ? [preset.id] : [] };
+};
+
+// Preset kedua dicampur ke LUT utama (settings.blend persen); nama file
+// tetap memakai nama preset utama.
+export const blendPresets = (base: LoadedPreset, other: LoadedPreset | null, blend: number): LoadedPreset =>
+    other && blend > 0
+        ? { label: base.label, lut: mixLuts(base.lut, other.lut, blend / 100), paidPresetIds: [...new Set([...base.paidPresetIds, ...other.paidPresetIds])] }
+        : base;
+
+export const hasLockedPreset = (preset: LoadedPreset, license: License | null): boolean =>
+    preset.paidPresetIds.some(presetId => !isPresetUnlocked(license, presetId));
+
+// Watermark dari manifest bila ada preset berbayar yang belum dibeli; null = hasil bersih.
+export const resolveWatermark = async (preset: LoadedPreset, license: License | null): Promise<Watermark | null> => {
+    if (!hasLockedPreset(preset, license)) return null;
+    const { loadWatermark } = await import('./watermark');
+    return loadWatermark((await loadPresetManifest()).watermark);
+};
+
+// Ukuran hasil RAW dibaca lebih dulu lewat identify dcraw; file yang
+// ukurannya tidak terbaca ditolak agar batas piksel tidak bisa dilewati.
+// Ukuran hasil decode dicek sekali lagi sebelum dipakai.
+export const decodeRawImage = (buffer: Uint8Array, options: { halfSize?: boolean } = {}, field?: string): DecodedRaw => {
+    const size = readRawOutputSize(buffer);
+    if (!size) {
+        throw new ProcessImageError('INVALID_IMAGE', 'Ukuran gambar RAW tidak terbaca.', field);
+    }
+    assertImagePixels(size.width, size.height, field);
+    let decoded;
+    try {
+        decoded = decodeRaw(buffer, options);
+    } catch (error) {
+        if (error instanceof RawDecodeError) {
+            throw new ProcessImageError('INVALID_IMAGE', error.message, field);
+        }
+        throw error;
+    }
+    assertImagePixels(decoded.width, decoded.height, field);
+    return decoded;
+};
+
+// Foto sumber didekode sharp langsung ke sRGB: profil ICC tertanam (Display
+// P3, Adobe RGB, ...) dikonversi, CMYK/grayscale ikut diubah, dan orientasi
+// EXIF diterapkan, sama seperti pratinjau browser yang dikelola warnanya ke
+// sRGB. File RAW didemosaic dcraw (sudah sRGB dan sudah diputar). Resize
+// dilakukan di sini, sebelum pipeline, agar grain dirender di resolusi hasil
+// seperti pratinjau.
+const decodeSourceImage = async ({ mime, buffer }: ExportInput['image'], longEdge: number | null): Promise<PipelineImage> => {
+    let source: sharp.Sharp;
+    if (mime === RAW_IMAGE_MIME) {
+        const decoded = decodeRawImage(buffer);
+        source = sharp(Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength), {
+            raw: { width: decoded.width, height: decoded.height, channels: 4 },
+        });
+    } else {
+        const { width = 0, height = 0 } = await sharp(buffer).metadata().catch(() => {
+            throw new ProcessImageError('INVALID_IMAGE');
+        });
+        assertImagePixels(width, height);
+        // Batas bawaan sharp tetap aktif sebagai lapisan kedua.
+        source = sharp(buffer, { limitInputPixels: MAX_IMAGE_PIXELS }).rotate();
+    }
+    if (longEdge) source = source.resize({ width: longEdge, height: longEdge, fit: 'inside', withoutEnlargement: true });
+
+    const { data, info } = await source
+        .toColourspace('srgb')
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+        .catch(() => {
+            throw new ProcessImageError('INVALID_IMAGE');
+        });
+    return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength), width: info.width, height: info.height };
+};
+
+export const processImageExport = async (
+    input: ExportInput,
+    { label, lut }: LoadedPreset,
+    exportOptions: ExportOptions,
+    task: ExportTask,
+    watermark: Watermark | null = null,
+): Promise<ExportResult> => {
+    task.update('decoding', 0);
+    const metadata = readSourceMetadata(input.image.mime, input.image.buffer);
+    const maxLongEdge = watermark?.config.maxLongEdge ?? null;
+    const longEdge = maxLongEdge ? Math.min(exportOptions.longEdge ?? maxLongEdge, maxLongEdge) : exportOptions.longEdge;
+    let imageData = await decodeSourceImage(input.image, longEdge);
+    task.throwIfCancelled();
+
+    task.update('rendering', PROGRESS_DECODED);
+    for (let row = 0; row < imageData.height; row += RENDER_BAND_ROWS) {
+        renderPipeline(imageData, input.settings, lut, { rowStart: row, rowEnd: row + RENDER_BAND_ROWS });
+        const rendered = Math.min(1, (row + RENDER_BAND_ROWS) / imageData.height);
+        task.update('rendering', PROGRESS_DECODED + rendered * (PROGRESS_RENDERED - PROGRESS_DECODED));
+        await yieldToEventLoop();
+        task.throwIfCancelled();
+    }
+    if (watermark) {
+        // node-canvas (native) baru dimuat bila memang ada watermark.
+        const [{ createCanvas }, { drawWatermark }] = await Promise.all([import('canvas'), import('./watermark')]);
+        const canvas = createCanvas(imageData.width, imageData.height);
+        const ctx = canvas.getContext('2d');
+        const canvasData = ctx.createImageData(imageData.width, imageData.height);
+        canvasData.data.set(imageData.data);
+        ctx.putImageData(canvasData, 0, 0);
+        drawWatermark(ctx, canvas.width, canvas.height, watermark);
+        imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }
+
+    // EXIF asli (orientasi direset) ikut disimpan; hasil selalu ber-profil sRGB.
+    task.update('encoding', PROGRESS_RENDERED);
+    const output = await encodeExport(imageData, metadata, { ...exportOptions, stripGps: input.stripGps });
+    task.throwIfCancelled();
+
+    const format = getExportFormat(exportOptions.format);
+    return {
+        output,
+        mime: format.mime,
+        filename: buildExportFilename(exportOptions.filenameTemplate, { sourceName: input.sourceName, presetName: label }, format.id),
+    };
+};
@@ -0,0 +1,27 @@
+// Status job ekspor HD, dikirim server lewat Server-Sent Events dari
+// /api/process-image/jobs/[jobId] dan ditampilkan di modal proses.
+
+export type ExportJobStage = 'queued' | 'decoding' | 'rendering' | 'encoding' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportJobStatus {
+    stage: ExportJobStage;
+    // 0-100, bilangan bulat.
+    progress: number;
+}
+
+export const EXPORT_STAGE_LABELS: Record<ExportJobStage, string> = {
+    queued: 'Mengunggah foto...',
+    decoding: 'Membaca gambar...',
+    rendering: 'Menerapkan preset...',
+    encoding: 'Menyimpan hasil...',
+    done: 'Selesai',
+    failed: 'Gagal',
+    cancelled: 'Dibatalkan',
+};
+
+export const isFinalExportStage = (stage: ExportJobStage): boolean =>
+    stage === 'done' || stage === 'failed' || stage === 'cancelled';
+
+// Id dibuat klien (crypto.randomUUID) agar progres bisa dipantau sebelum
+// upload selesai.
+export const EXPORT_JOB_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
@@ -0,0 +1,113 @@
+// Khusus Node (CLI): argumen file, folder, atau pola glob → daftar file
+// gambar. Pola yang didukung cukup untuk pemakaian sehari-hari: *, ?, **
+// dan {a,b}.
+import fs from 'fs/promises';
+import path from 'path';
+import { ImageProcessor } from './imageProcessor';
+
+// Format yang bisa dibaca alur ekspor server (node-canvas atau dcraw).
+export const CLI_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', ...ImageProcessor.supportedFormats.raw];
+
+export interface InputFile {
+    path: string;
+    // Path relatif terhadap folder/awal pola; struktur foldernya ditiru di folder hasil.
+    relativePath: string;
+}
+
+const GLOB_CHARS = /[*?{]/;
+
+export const isGlobPattern = (pattern: string): boolean => GLOB_CHARS.test(pattern);
+
+const escapeRegExp = (text: string) => text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+
+// Pola dicocokkan dengan path relatif ber-separator "/".
+export const globToRegExp = (pattern: string): RegExp => {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" boleh cocok dengan nol folder.
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+};
+
+export const isSupportedImagePath = (filePath: string): boolean =>
+    CLI_IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+const toPosix = (filePath: string) => filePath.split(path.sep).join('/');
+
+const walk = async (dir: string, recursive: boolean): Promise<string[]> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (recursive && !entry.name.startsWith('.')) files.push(...await walk(entryPath, recursive));
+        } else if (entry.isFile()) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+};
+
+// Folder di depan bagian pola pertama yang mengandung wildcard.
+const globBase = (pattern: string): { base: string; rest: string } => {
+    const segments = toPosix(pattern).split('/');
+    const index = segments.findIndex(segment => isGlobPattern(segment));
+    const base = segments.slice(0, index).join('/');
+    return { base: base || '.', rest: segments.slice(index).join('/') };
+};
+
+// File yang disebut langsung selalu dipakai; isi folder dan hasil pola
+// disaring berdasarkan ekstensi gambar. Hasil tanpa duplikat, urut per argumen.
+export const expandInputs = async (args: string[], recursive: boolean): Promise<InputFile[]> => {
+    const seen = new Set<string>();
+    const files: InputFile[] = [];
+    const add = (filePath: string, relativePath: string) => {
+        const resolved = path.resolve(filePath);
+        if (seen.has(resolved)) return;
+        seen.add(resolved);
+        files.push({ path: filePath, relativePath: toPosix(relativePath) });
+    };
+
+    for (const arg of args) {
+        if (isGlobPattern(arg)) {
+            const { base, rest } = globBase(arg);
+            const matcher = globToRegExp(rest);
+            const candidates = await walk(base, rest.includes('/') || rest.includes('**'));
+            for (const file of candidates) {
+                const relative = toPosix(path.relative(base, file));
+                if (matcher.test(relative) && isSupportedImagePath(file)) add(file, relative);
+            }
+            continue;
+        }
+        const stat = await fs.stat(arg);
+        if (stat.isDirectory()) {
+            for (const file of await walk(arg, recursive)) {
+                if (isSupportedImagePath(file)) add(file, path.relative(arg, file));
+            }
+        } else {
+            add(arg, path.basename(arg));
+        }
+    }
+    return files;
+};
@@ -0,0 +1,82 @@
+// Grain film deterministik: pola bergantung pada seed dan posisi relatif di
+// gambar, bukan Math.random(), sehingga pratinjau dan ekspor HD sama.
+
+export type GrainType = 'mono' | 'color';
+
+export const GRAIN_TYPES: GrainType[] = ['mono', 'color'];
+
+// Grain diukur pada sisi panjang "referensi" ini, lalu diskalakan ke
+// resolusi gambar sebenarnya.
+export const GRAIN_REFERENCE_LONG_EDGE = 3000;
+
+// Hash integer 32-bit. Hanya memakai imul/xor/shift supaya bisa ditiru
+// persis di shader GLSL (uint).
+export const hashGrain = (x: number, y: number, seed: number): number => {
+    let h = (seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1)) >>> 0;
+    h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d);
+    h = Math.imul(h ^ (h >>> 12), 0x297a2d39);
+    h ^= h >>> 15;
+    return (h >>> 0) / 4294967296;
+};
+
+// Value noise dengan interpolasi smoothstep, hasil -0.5..0.5.
+const valueNoise = (u: number, v: number, seed: number): number => {
+    const x0 = Math.floor(u), y0 = Math.floor(v);
+    const fx = u - x0, fy = v - y0;
+    const sx = fx * fx * (3 - 2 * fx);
+    const sy = fy * fy * (3 - 2 * fy);
+    const n00 = hashGrain(x0, y0, seed), n10 = hashGrain(x0 + 1, y0, seed);
+    const n01 = hashGrain(x0, y0 + 1, seed), n11 = hashGrain(x0 + 1, y0 + 1, seed);
+    const top = n00 + (n10 - n00) * sx;
+    const bottom = n01 + (n11 - n01) * sx;
+    return top + (bottom - top) * sy - 0.5;
+};
+
+// Dua oktaf: butiran halus ditambah gumpalan kasar seperti emulsi film.
+// Bobotnya membuat simpangan baku ≈ 0.29, setara noise acak lama.
+const filmNoise = (u: number, v: number, seed: number): number =>
+    valueNoise(u, v, seed) * 1.1 + valueNoise(u * 0.5, v * 0.5, seed ^ 0x9e3779b9) * 0.75;
+
+// Grain paling terlihat di midtone dan memudar di hitam pekat / putih bersih.
+export const grainLuminanceResponse = (luma: number): number => {
+    const l = Math.max(0, Math.min(1, luma));
+    return 0.25 + 3 * l * (1 - l);
+};
+
+// grainSize 0-100 → ukuran butir 0.6-4 piksel referensi.
+export const grainCellSize = (grainSize: number): number => 0.6 + (Math.max(0, Math.min(100, grainSize)) / 100) * 3.4;
+
+export interface GrainField {
+    // Offset noise per kanal (rata-rata 0) pada piksel x, y.
+    sample: (x: number, y: number, out: [number, number, number]) => void;
+}
+
+export const createGrainField = (
+    width: number,
+    height: number,
+    options: { size: number; seed: number; type: GrainType },
+): GrainField => {
+    const scale = GRAIN_REFERENCE_LONG_EDGE / Math.max(width, height) / grainCellSize(options.size);
+    const seed = options.seed >>> 0;
+    if (options.type === 'mono') {
+        return {
+            sample: (x, y, out) => {
+                const n = filmNoise((x + 0.5) * scale, (y + 0.5) * scale, seed);
+                out[0] = n; out[1] = n; out[2] = n;
+            },
+        };
+    }
+    // Grain warna: setengah komponen bersama agar tidak terlihat seperti noise digital.
+    const seedR = (seed + 0x68e31da4) >>> 0, seedG = (seed + 0xb5297a4d) >>> 0, seedB = (seed + 0x1b56c4e9) >>> 0;
+    return {
+        sample: (x, y, out) => {
+            const u = (x + 0.5) * scale, v = (y + 0.5) * scale;
+            const shared = filmNoise(u, v, seed) * 0.5;
+            out[0] = shared + filmNoise(u, v, seedR) * 0.5;
+            out[1] = shared + filmNoise(u, v, seedG) * 0.5;
+            out[2] = shared + filmNoise(u, v, seedB) * 0.5;
+        },
+    };
+};
+
+export const randomGrainSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
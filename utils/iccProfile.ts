@@ -0,0 +1,182 @@
+// Profil ICC v4 ringkas (matrix/TRC) untuk sRGB, dibangun langsung dari
+// primer D50 dan kurva parametrik sRGB agar tidak perlu menyimpan file .icc
+// di repo.
+import { Vec3 } from './lut';
+
+export type ColorSpaceId = 'srgb';
+
+interface RgbProfileSpec {
+    description: string;
+    // Kolom XYZ (PCS D50, sudah diadaptasi Bradford) untuk primer R, G, B.
+    primaries: [Vec3, Vec3, Vec3];
+}
+
+const PROFILES: Record<ColorSpaceId, RgbProfileSpec> = {
+    srgb: {
+        description: 'sRGB',
+        primaries: [
+            [0.4360747, 0.2225045, 0.0139322],
+            [0.3850649, 0.7168786, 0.0971045],
+            [0.1430804, 0.0606169, 0.7141733],
+        ],
+    },
+};
+
+const D50: Vec3 = [0.9642, 1.0, 0.8249];
+
+// Adaptasi Bradford D65 → D50 (titik putih sRGB).
+const CHAD_D65_TO_D50 = [
+    1.0478112, 0.0228866, -0.0501270,
+    0.0295424, 0.9904844, -0.0170491,
+    -0.0092345, 0.0150436, 0.7521316,
+];
+
+const COPYRIGHT = 'No copyright, use freely';
+
+class ByteWriter {
+    private bytes: number[] = [];
+
+    get length(): number {
+        return this.bytes.length;
+    }
+
+    u8(value: number) {
+        this.bytes.push(value & 0xff);
+    }
+
+    u16(value: number) {
+        this.u8(value >> 8);
+        this.u8(value);
+    }
+
+    u32(value: number) {
+        this.u16(value >>> 16);
+        this.u16(value & 0xffff);
+    }
+
+    ascii(text: string) {
+        for (let i = 0; i < text.length; i++) this.u8(text.charCodeAt(i));
+    }
+
+    s15Fixed16(value: number) {
+        this.u32(Math.round(value * 65536) >>> 0);
+    }
+
+    pad4() {
+        while (this.bytes.length % 4) this.u8(0);
+    }
+
+    toBytes(): Uint8Array {
+        return Uint8Array.from(this.bytes);
+    }
+}
+
+const mlucTag = (text: string): Uint8Array => {
+    const w = new ByteWriter();
+    w.ascii('mluc');
+    w.u32(0);
+    w.u32(1);
+    w.u32(12);
+    w.ascii('enUS');
+    w.u32(text.length * 2);
+    w.u32(28);
+    for (let i = 0; i < text.length; i++) w.u16(text.charCodeAt(i));
+    return w.toBytes();
+};
+
+const xyzTag = (xyz: Vec3): Uint8Array => {
+    const w = new ByteWriter();
+    w.ascii('XYZ ');
+    w.u32(0);
+    xyz.forEach(v => w.s15Fixed16(v));
+    return w.toBytes();
+};
+
+// Kurva parametrik tipe 3: Y = (aX + b)^g untuk X ≥ d, selain itu cX.
+const srgbCurveTag = (): Uint8Array => {
+    const w = new ByteWriter();
+    w.ascii('para');
+    w.u32(0);
+    w.u16(3);
+    w.u16(0);
+    [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045].forEach(v => w.s15Fixed16(v));
+    return w.toBytes();
+};
+
+const chadTag = (): Uint8Array => {
+    const w = new ByteWriter();
+    w.ascii('sf32');
+    w.u32(0);
+    CHAD_D65_TO_D50.forEach(v => w.s15Fixed16(v));
+    return w.toBytes();
+};
+
+const buildProfile = (spec: RgbProfileSpec): Uint8Array => {
+    const curve = srgbCurveTag();
+    // Tag dengan data identik (TRC) boleh berbagi offset.
+    const tags: [string, Uint8Array][] = [
+        ['desc', mlucTag(spec.description)],
+        ['cprt', mlucTag(COPYRIGHT)],
+        ['wtpt', xyzTag(D50)],
+        ['chad', chadTag()],
+        ['rXYZ', xyzTag(spec.primaries[0])],
+        ['gXYZ', xyzTag(spec.primaries[1])],
+        ['bXYZ', xyzTag(spec.primaries[2])],
+        ['rTRC', curve],
+        ['gTRC', curve],
+        ['bTRC', curve],
+    ];
+
+    const body = new ByteWriter();
+    const offsets = new Map<Uint8Array, number>();
+    const tableSize = 4 + tags.length * 12;
+    const dataStart = 128 + tableSize;
+    for (const [, data] of tags) {
+        if (offsets.has(data)) continue;
+        offsets.set(data, dataStart + body.length);
+        data.forEach(b => body.u8(b));
+        body.pad4();
+    }
+    const totalSize = dataStart + body.length;
+
+    const w = new ByteWriter();
+    w.u32(totalSize);
+    w.u32(0);
+    w.u32(0x04300000);
+    w.ascii('mntrRGB XYZ ');
+    [2024, 1, 1, 0, 0, 0].forEach(v => w.u16(v));
+    w.ascii('acsp');
+    w.u32(0);
+    w.u32(0);
+    w.u32(0);
+    w.u32(0);
+    w.u32(0);
+    w.u32(0);
+    w.u32(0);
+    D50.forEach(v => w.s15Fixed16(v));
+    w.u32(0);
+    for (let i = 0; i < 16 + 28; i++) w.u8(0);
+
+    w.u32(tags.length);
+    for (const [signature, data] of tags) {
+        w.ascii(signature);
+        w.u32(offsets.get(data)!);
+        w.u32(data.length);
+    }
+    const header = w.toBytes();
+    const out = new Uint8Array(totalSize);
+    out.set(header, 0);
+    out.set(body.toBytes(), header.length);
+    return out;
+};
+
+const cache = new Map<ColorSpaceId, Uint8Array>();
+
+export const getIccProfile = (space: ColorSpaceId): Uint8Array => {
+    let profile = cache.get(space);
+    if (!profile) {
+        profile = buildProfile(PROFILES[space]);
+        cache.set(space, profile);
+    }
+    return profile;
+};
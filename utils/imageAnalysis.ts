@@ -0,0 +1,86 @@
+// Analisis piksel pratinjau: histogram RGB/luma, peta clipping, dan pembacaan
+// satu piksel untuk probe. Semua bekerja di atas ImageData yang sama dengan
+// yang digambar ke canvas sebelum/sesudah.
+import { Vec3 } from './lut';
+import { PipelineImage } from './pipeline';
+
+export interface Histogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luma: Uint32Array;
+    // Jumlah piksel yang dihitung (bisa lebih kecil dari ukuran gambar).
+    samples: number;
+}
+
+// Pratinjau GPU bisa 8K; cukup sekitar satu juta piksel untuk bentuk histogram.
+const MAX_HISTOGRAM_SAMPLES = 1_000_000;
+
+export const computeHistogram = (image: PipelineImage): Histogram => {
+    const { data, width, height } = image;
+    const histogram: Histogram = {
+        red: new Uint32Array(256),
+        green: new Uint32Array(256),
+        blue: new Uint32Array(256),
+        luma: new Uint32Array(256),
+        samples: 0,
+    };
+    const stride = Math.max(1, Math.floor((width * height) / MAX_HISTOGRAM_SAMPLES)) * 4;
+    for (let i = 0; i < data.length; i += stride) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        histogram.red[r]++;
+        histogram.green[g]++;
+        histogram.blue[b]++;
+        histogram.luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+        histogram.samples++;
+    }
+    return histogram;
+};
+
+// Puncak untuk skala grafik. Bin 0 dan 255 diabaikan agar lonjakan area
+// terpotong tidak membuat sisa histogram menjadi datar.
+export const histogramPeak = (histogram: Histogram): number => {
+    let peak = 1;
+    for (const channel of [histogram.red, histogram.green, histogram.blue, histogram.luma]) {
+        for (let i = 1; i < 255; i++) peak = Math.max(peak, channel[i]);
+    }
+    return peak;
+};
+
+// Bagian histogram yang menempel di 0 atau 255, dalam persen piksel.
+export const clippedPercent = (histogram: Histogram): { shadows: number; highlights: number } => {
+    const percent = (count: number) => (histogram.samples ? (count / histogram.samples) * 100 : 0);
+    return {
+        shadows: percent(Math.max(histogram.red[0], histogram.green[0], histogram.blue[0])),
+        highlights: percent(Math.max(histogram.red[255], histogram.green[255], histogram.blue[255])),
+    };
+};
+
+export interface ClippingOptions {
+    highlights: boolean;
+    shadows: boolean;
+}
+
+// Overlay RGBA seukuran gambar: merah untuk kanal yang menyentuh 255,
+// biru untuk kanal yang menyentuh 0; selebihnya transparan.
+export const createClippingOverlay = (image: PipelineImage, options: ClippingOptions): Uint8ClampedArray => {
+    const { data } = image;
+    const overlay = new Uint8ClampedArray(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        if (options.highlights && (r === 255 || g === 255 || b === 255)) {
+            overlay[i] = 255; overlay[i + 3] = 255;
+        } else if (options.shadows && (r === 0 || g === 0 || b === 0)) {
+            overlay[i + 2] = 255; overlay[i + 3] = 255;
+        }
+    }
+    return overlay;
+};
+
+// Posisi relatif 0-1 di atas gambar → nilai RGB piksel tersebut.
+export const readPixel = (image: PipelineImage, u: number, v: number): Vec3 => {
+    const x = Math.min(image.width - 1, Math.max(0, Math.floor(u * image.width)));
+    const y = Math.min(image.height - 1, Math.max(0, Math.floor(v * image.height)));
+    const i = (y * image.width + x) * 4;
+    return [image.data[i], image.data[i + 1], image.data[i + 2]];
+};
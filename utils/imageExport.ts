@@ -0,0 +1,77 @@
+// Khusus server: encoding hasil ekspor lewat sharp. Piksel hasil pipeline
+// dibungkus PNG tanpa kompresi yang membawa iCCP dan eXIf, lalu sharp
+// mempertahankan metadata itu apa adanya (keepIccProfile tidak mengonversi
+// warna) untuk semua format keluaran.
+import sharp from 'sharp';
+import zlib from 'zlib';
+import { prepareExifForExport } from './exif';
+import { SourceMetadata, exportIccProfile } from './exportMetadata';
+import { ExportOptions } from './exportOptions';
+import { PipelineImage } from './pipeline';
+import { MAX_IMAGE_PIXELS } from './processImageRequest';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const pngChunk = (type: string, data: Uint8Array): Buffer => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(zlib.crc32(body));
+    return Buffer.concat([length, body, crc]);
+};
+
+// PNG RGB 8-bit dengan deflate level 0: hanya wadah metadata, jadi
+// kompresi sengaja dilewati agar cepat.
+const buildIntermediatePng = (image: PipelineImage, icc: Uint8Array, exif: Uint8Array | null): Buffer => {
+    const { data, width, height } = image;
+    const rowBytes = 1 + width * 3;
+    const rows = Buffer.alloc(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+        let o = y * rowBytes + 1;
+        for (let i = y * width * 4, end = i + width * 4; i < end; i += 4) {
+            rows[o++] = data[i];
+            rows[o++] = data[i + 1];
+            rows[o++] = data[i + 2];
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = 2;
+
+    const chunks = [
+        PNG_SIGNATURE,
+        pngChunk('IHDR', header),
+        pngChunk('iCCP', Buffer.concat([Buffer.from('icc\0\0', 'ascii'), zlib.deflateSync(icc)])),
+    ];
+    // eXIf berisi struktur TIFF tanpa awalan "Exif\0\0" milik APP1.
+    if (exif) chunks.push(pngChunk('eXIf', exif.subarray(6)));
+    chunks.push(pngChunk('IDAT', zlib.deflateSync(rows, { level: 0 })), pngChunk('IEND', new Uint8Array(0)));
+    return Buffer.concat(chunks);
+};
+
+export const encodeExport = async (
+    image: PipelineImage,
+    metadata: SourceMetadata,
+    options: ExportOptions & { stripGps: boolean },
+): Promise<Buffer> => {
+    const exif = metadata.exif ? prepareExifForExport(metadata.exif, options) : null;
+    const png = buildIntermediatePng(image, exportIccProfile(), exif);
+    const output = sharp(png, { limitInputPixels: MAX_IMAGE_PIXELS }).keepIccProfile().keepExif();
+    switch (options.format) {
+        case 'png':
+            return output.png({ compressionLevel: 6 }).toBuffer();
+        case 'webp':
+            return output.webp({ quality: options.quality }).toBuffer();
+        case 'avif':
+            return output.avif({ quality: options.quality }).toBuffer();
+        case 'tiff16':
+            // Pipeline bekerja 8-bit; nilainya diperluas ke wadah 16-bit.
+            return output.toColourspace('rgb16').tiff({ compression: 'lzw' }).toBuffer();
+        default:
+            return output.jpeg({ quality: options.quality }).toBuffer();
+    }
+};
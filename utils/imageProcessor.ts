@@ -1,3 +1,6 @@
+import { orientationTransform, orientedSize } from './exif';
+import { RAW_IMAGE_MIME, extractRawPreview } from './rawPreview';
+
 // Utility untuk menangani berbagai format gambar
 export class ImageProcessor {
   static supportedFormats = {
@@ -66,9 +69,92 @@ export class ImageProcessor {
   }
 
   private static async processRAWImage(file: File): Promise<string> {
-    // Untuk RAW files, kita perlu menggunakan service eksternal atau library khusus
-    // Karena keterbatasan browser, kita akan memberikan instruksi kepada user
-    throw new Error(`File RAW (${file.name}) terdeteksi. Untuk hasil terbaik, silakan konversi ke JPG terlebih dahulu menggunakan software seperti Adobe Lightroom, Capture One, atau RawTherapee, lalu upload kembali.`);
+    // Pratinjau cepat dari JPEG yang tertanam di file RAW
+    const preview = extractRawPreview(new Uint8Array(await file.arrayBuffer()));
+    if (preview) {
+      const blob = new Blob([preview.jpeg], { type: 'image/jpeg' });
+      return this.orientImage(blob, preview.orientation);
+    }
+
+    // Tidak ada pratinjau tertanam: file dikirim biner, server mendemosaic
+    // setengah ukuran dan membalas byte JPEG (object URL, dilepas loadSources)
+    const response = await fetch('/api/raw-preview', {
+      method: 'POST',
+      headers: { 'Content-Type': RAW_IMAGE_MIME },
+      body: file,
+    });
+    if (!response.ok) {
+      const result: { error?: string } = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Gagal membaca file RAW (${file.name}).`);
+    }
+    return URL.createObjectURL(await response.blob());
+  }
+
+  // Sumber pratinjau dan sumber resolusi penuh (dikirim biner saat ekspor HD).
+  // RAW: pratinjau dari JPEG tertanam, ekspor mengirim file asli agar
+  // didemosaic penuh; HEIC/TIFF memakai hasil konversi browser untuk keduanya.
+  static async loadSources(file: File): Promise<{ preview: Blob; fullRes: Blob }> {
+    const processedSrc = await this.processFile(file);
+    let preview: Blob;
+    try {
+      preview = this.supportedFormats.standard.includes(file.type.toLowerCase())
+        ? file
+        : await (await fetch(processedSrc)).blob();
+    } finally {
+      if (processedSrc.startsWith('blob:')) URL.revokeObjectURL(processedSrc);
+    }
+    const fullRes = this.getFileInfo(file).type === 'raw' ? new Blob([file], { type: RAW_IMAGE_MIME }) : preview;
+    return { preview, fullRes };
+  }
+
+  static async loadImage(blob: Blob): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(blob);
+    try {
+      return await new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Gagal memuat gambar. File mungkin corrupt atau format tidak didukung sepenuhnya.'));
+        image.src = url;
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  // Thumbnail JPEG kecil untuk filmstrip batch
+  static async createThumbnail(blob: Blob, maxEdge = 160): Promise<string> {
+    const img = await this.loadImage(blob);
+    const ratio = Math.min(1, maxEdge / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * ratio));
+    canvas.height = Math.max(1, Math.round(img.height * ratio));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  }
+
+  // Memutar gambar sesuai orientasi EXIF (1-8) lalu mengembalikannya sebagai data URL JPEG
+  private static async orientImage(blob: Blob, orientation: number): Promise<string> {
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Pratinjau RAW tidak dapat dibaca'));
+        image.src = url;
+      });
+      const { naturalWidth: w, naturalHeight: h } = img;
+      const canvas = document.createElement('canvas');
+      const size = orientedSize(orientation, w, h);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas tidak tersedia');
+      ctx.setTransform(...orientationTransform(orientation, w, h));
+      ctx.drawImage(img, 0, 0);
+      return canvas.toDataURL('image/jpeg', 0.92);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
   }
 
   private static async processTIFFImage(file: File): Promise<string> {
@@ -112,10 +198,10 @@ export class ImageProcessor {
     
     if (this.supportedFormats.raw.some(ext => fileName.endsWith(ext))) {
       return { 
-        isSupported: false, 
+        isSupported: true, 
         type: 'raw', 
         needsConversion: true,
-        message: 'File RAW perlu dikonversi ke JPG terlebih dahulu'
+        message: 'Membaca pratinjau dari file RAW...'
       };
     }
     
@@ -0,0 +1,20 @@
+// Lisensi preset berbayar: isi kode lisensi yang sudah diverifikasi server
+// (utils/licenseKeys.ts) dan dikirim ke browser apa adanya.
+
+// Cookie httpOnly berisi kode lisensi, dibaca ulang di setiap route ekspor.
+export const LICENSE_COOKIE = 'masarif_license';
+
+// Nilai di daftar presets yang membuka semua preset berbayar.
+export const ALL_PRESETS = '*';
+
+export interface License {
+    // Nomor pesanan dari toko, untuk ditampilkan dan dilacak.
+    order: string;
+    // Id preset yang dibeli, atau [ALL_PRESETS].
+    presets: string[];
+    // Detik Unix; null = tidak kedaluwarsa.
+    expiresAt: number | null;
+}
+
+export const isPresetUnlocked = (license: License | null, presetId: string): boolean =>
+    !!license && (license.presets.includes(ALL_PRESETS) || license.presets.includes(presetId));
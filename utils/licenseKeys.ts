@@ -0,0 +1,62 @@
+// Khusus server: membuat dan memverifikasi kode lisensi. Kode berbentuk
+// MSR1.<isi>.<tanda tangan>, keduanya base64url; tanda tangan adalah
+// HMAC-SHA256 dengan LICENSE_SECRET, jadi verifikasi tidak butuh database.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { LICENSE_COOKIE, License } from './license';
+
+const KEY_PREFIX = 'MSR1';
+const PRESET_ID_PATTERN = /^(\*|[a-z0-9][a-z0-9-]*)$/;
+
+const getSecret = (): string | null => {
+    const secret = process.env.LICENSE_SECRET;
+    return secret && secret.length >= 16 ? secret : null;
+};
+
+const sign = (secret: string, body: string): Buffer =>
+    createHmac('sha256', secret).update(`${KEY_PREFIX}.${body}`).digest();
+
+export const createLicenseKey = (license: License): string => {
+    const secret = getSecret();
+    if (!secret) throw new Error('LICENSE_SECRET belum diatur (minimal 16 karakter).');
+    const body = Buffer.from(JSON.stringify({ o: license.order, p: license.presets, e: license.expiresAt })).toString('base64url');
+    return `${KEY_PREFIX}.${body}.${sign(secret, body).toString('base64url')}`;
+};
+
+// null untuk kode yang rusak, tanda tangannya salah, atau sudah kedaluwarsa.
+export const verifyLicenseKey = (key: string, now = Date.now()): License | null => {
+    const secret = getSecret();
+    if (!secret) return null;
+    const [prefix, body, signature, ...rest] = key.trim().split('.');
+    if (prefix !== KEY_PREFIX || !body || !signature || rest.length > 0) return null;
+    const expected = sign(secret, body);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    } catch {
+        return null;
+    }
+    const { o, p, e } = (payload ?? {}) as Record<string, unknown>;
+    if (typeof o !== 'string' || !Array.isArray(p) || !p.every(id => typeof id === 'string' && PRESET_ID_PATTERN.test(id))) return null;
+    if (e !== null && typeof e !== 'number') return null;
+    if (e !== null && e * 1000 <= now) return null;
+    return { order: o, presets: p, expiresAt: e };
+};
+
+// Lisensi dari cookie permintaan; null bila tidak ada atau tidak valid.
+export const readRequestLicense = (request: Request): License | null => {
+    const cookies = request.headers.get('cookie') ?? '';
+    for (const part of cookies.split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name !== LICENSE_COOKIE) continue;
+        try {
+            return verifyLicenseKey(decodeURIComponent(value.join('=')));
+        } catch {
+            // Cookie rusak (URIError) diperlakukan sama dengan tanpa lisensi.
+            return null;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,368 @@
+// Parser dan lookup LUT .cube (Adobe / DaVinci Resolve) yang dipakai bersama
+// oleh pratinjau di browser dan route /api/process-image di server.
+
+export type Vec3 = [number, number, number];
+
+// Satu tabel LUT (1D atau 3D). Data disimpan sebagai float RGB bertumpuk,
+// urutan baris mengikuti file .cube: merah berubah paling cepat.
+export interface LutTable {
+    size: number;
+    data: Float32Array;
+    domainMin: Vec3;
+    domainMax: Vec3;
+}
+
+// Tipe untuk objek LUT (Look-Up Table). File .cube bisa berisi 1D saja,
+// 3D saja, atau kombinasi shaper 1D + 3D seperti ekspor Resolve.
+export interface Lut {
+    title: string | null;
+    shaper: LutTable | null;
+    cube: LutTable | null;
+}
+
+export type LutInterpolation = 'nearest' | 'trilinear' | 'tetrahedral';
+
+export const LUT_INTERPOLATIONS: LutInterpolation[] = ['nearest', 'trilinear', 'tetrahedral'];
+
+// Sama dengan Resolve/Lightroom, dipakai untuk ekspor HD.
+export const DEFAULT_LUT_INTERPOLATION: LutInterpolation = 'tetrahedral';
+
+export const LUT_3D_MAX_SIZE = 256;
+export const LUT_1D_MAX_SIZE = 65536;
+
+export class LutParseError extends Error {
+    line: number | null;
+
+    constructor(message: string, line: number | null = null) {
+        super(line === null ? message : `Baris ${line}: ${message}`);
+        this.name = 'LutParseError';
+        this.line = line;
+    }
+}
+
+const parseNumbers = (parts: string[], count: number, keyword: string, line: number): number[] => {
+    if (parts.length !== count) {
+        throw new LutParseError(`${keyword} membutuhkan ${count} angka.`, line);
+    }
+    const values = parts.map(Number);
+    if (values.some(v => !Number.isFinite(v))) {
+        throw new LutParseError(`${keyword} berisi angka yang tidak valid.`, line);
+    }
+    return values;
+};
+
+const parseSize = (parts: string[], keyword: string, max: number, line: number): number => {
+    const [value] = parseNumbers(parts, 1, keyword, line);
+    if (!Number.isInteger(value) || value < 2 || value > max) {
+        throw new LutParseError(`${keyword} harus bilangan bulat antara 2 dan ${max}.`, line);
+    }
+    return value;
+};
+
+const checkDomain = (min: Vec3, max: Vec3, keyword: string, line: number | null) => {
+    if (min.some((v, i) => v >= max[i])) {
+        throw new LutParseError(`${keyword}: nilai minimum harus lebih kecil dari maksimum.`, line);
+    }
+};
+
+export const parseCubeFile = (text: string): Lut => {
+    const lines = text.split(/\r\n|\r|\n/);
+    let title: string | null = null;
+    let size1D = 0;
+    let size3D = 0;
+    let domainMin: Vec3 | null = null;
+    let domainMax: Vec3 | null = null;
+    let range1D: [number, number] | null = null;
+    let range3D: [number, number] | null = null;
+    const seen = new Set<string>();
+    const rows: number[] = [];
+    let rowCount = 0;
+    let domainLine: number | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const lineNo = i + 1;
+        const trimmedLine = lines[i].trim();
+        if (!trimmedLine || trimmedLine.startsWith('#')) continue;
+
+        const [keyword, ...parts] = trimmedLine.split(/\s+/);
+        if (/^[A-Za-z_]/.test(keyword)) {
+            if (rowCount > 0) {
+                throw new LutParseError(`Keyword ${keyword} harus berada sebelum data LUT.`, lineNo);
+            }
+            if (seen.has(keyword)) {
+                throw new LutParseError(`Keyword ${keyword} muncul lebih dari sekali.`, lineNo);
+            }
+            seen.add(keyword);
+
+            switch (keyword) {
+                case 'TITLE': {
+                    const match = trimmedLine.match(/^TITLE\s+"(.*)"\s*$/);
+                    if (!match) throw new LutParseError('TITLE harus berupa teks di dalam tanda kutip.', lineNo);
+                    title = match[1];
+                    break;
+                }
+                case 'LUT_3D_SIZE':
+                    size3D = parseSize(parts, keyword, LUT_3D_MAX_SIZE, lineNo);
+                    break;
+                case 'LUT_1D_SIZE':
+                    size1D = parseSize(parts, keyword, LUT_1D_MAX_SIZE, lineNo);
+                    break;
+                case 'DOMAIN_MIN':
+                    domainMin = parseNumbers(parts, 3, keyword, lineNo) as Vec3;
+                    domainLine = lineNo;
+                    break;
+                case 'DOMAIN_MAX':
+                    domainMax = parseNumbers(parts, 3, keyword, lineNo) as Vec3;
+                    domainLine = lineNo;
+                    break;
+                case 'LUT_1D_INPUT_RANGE':
+                    range1D = parseNumbers(parts, 2, keyword, lineNo) as [number, number];
+                    if (range1D[0] >= range1D[1]) throw new LutParseError(`${keyword}: nilai minimum harus lebih kecil dari maksimum.`, lineNo);
+                    break;
+                case 'LUT_3D_INPUT_RANGE':
+                    range3D = parseNumbers(parts, 2, keyword, lineNo) as [number, number];
+                    if (range3D[0] >= range3D[1]) throw new LutParseError(`${keyword}: nilai minimum harus lebih kecil dari maksimum.`, lineNo);
+                    break;
+                default:
+                    // Keyword vendor lain (mis. LUT_IN_VIDEO_RANGE) tidak memengaruhi data.
+                    break;
+            }
+            continue;
+        }
+
+        const values = trimmedLine.split(/\s+/).map(Number);
+        if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+            throw new LutParseError('Baris data harus berisi tiga angka R G B.', lineNo);
+        }
+        rows.push(values[0], values[1], values[2]);
+        rowCount++;
+    }
+
+    if (!size1D && !size3D) {
+        throw new LutParseError('LUT_3D_SIZE atau LUT_1D_SIZE tidak ditemukan.');
+    }
+    const expected = size1D + size3D * size3D * size3D;
+    if (rowCount !== expected) {
+        throw new LutParseError(`Jumlah baris data ${rowCount}, seharusnya ${expected}.`);
+    }
+
+    // DOMAIN_* berlaku untuk tahap pertama (shaper bila ada), sedangkan
+    // *_INPUT_RANGE gaya Resolve berlaku per tahap.
+    const defaultMin: Vec3 = [0, 0, 0];
+    const defaultMax: Vec3 = [1, 1, 1];
+    const resolveDomain = (range: [number, number] | null, useDomain: boolean): [Vec3, Vec3] => {
+        if (range) return [[range[0], range[0], range[0]], [range[1], range[1], range[1]]];
+        if (useDomain) return [domainMin ?? defaultMin, domainMax ?? defaultMax];
+        return [defaultMin, defaultMax];
+    };
+
+    let shaper: LutTable | null = null;
+    let cube: LutTable | null = null;
+    if (size1D) {
+        const [min, max] = resolveDomain(range1D, true);
+        checkDomain(min, max, 'DOMAIN_MIN/DOMAIN_MAX', domainLine);
+        shaper = { size: size1D, data: new Float32Array(rows.slice(0, size1D * 3)), domainMin: min, domainMax: max };
+    }
+    if (size3D) {
+        const [min, max] = resolveDomain(range3D, !size1D);
+        checkDomain(min, max, 'DOMAIN_MIN/DOMAIN_MAX', domainLine);
+        cube = { size: size3D, data: new Float32Array(rows.slice(size1D * 3)), domainMin: min, domainMax: max };
+    }
+
+    return { title, shaper, cube };
+};
+
+const formatCubeNumber = (value: number) => value.toFixed(6);
+
+// Kebalikan parseCubeFile untuk LUT 3D murni (hasil bake): TITLE,
+// LUT_3D_SIZE, domain bila bukan 0-1, lalu baris data dengan merah berubah
+// paling cepat.
+export const serializeCubeFile = (lut: Lut): string => {
+    const { cube } = lut;
+    if (!cube || lut.shaper) {
+        throw new Error('serializeCubeFile hanya mendukung LUT 3D tanpa shaper.');
+    }
+    const lines: string[] = [];
+    // Tanda kutip dan baris baru tidak bisa ditulis di dalam TITLE.
+    if (lut.title) lines.push(`TITLE "${lut.title.replace(/"/g, '').replace(/[\r\n]+/g, ' ').trim()}"`);
+    lines.push(`LUT_3D_SIZE ${cube.size}`);
+    if (cube.domainMin.some(v => v !== 0) || cube.domainMax.some(v => v !== 1)) {
+        lines.push(`DOMAIN_MIN ${cube.domainMin.map(formatCubeNumber).join(' ')}`);
+        lines.push(`DOMAIN_MAX ${cube.domainMax.map(formatCubeNumber).join(' ')}`);
+    }
+    for (let i = 0; i < cube.data.length; i += 3) {
+        lines.push(`${formatCubeNumber(cube.data[i])} ${formatCubeNumber(cube.data[i + 1])} ${formatCubeNumber(cube.data[i + 2])}`);
+    }
+    return `${lines.join('\n')}\n`;
+};
+
+// Batas untuk file .cube yang diunggah pengguna (pratinjau dan ekspor HD).
+// 65³ sudah di atas ukuran ekspor Resolve/Lightroom pada umumnya.
+export const CUSTOM_LUT_MAX_BYTES = 10 * 1024 * 1024;
+export const CUSTOM_LUT_MAX_3D_SIZE = 65;
+
+export const parseCustomLut = (text: string): Lut => {
+    if (text.length > CUSTOM_LUT_MAX_BYTES) {
+        throw new LutParseError(`File LUT terlalu besar (maksimal ${CUSTOM_LUT_MAX_BYTES / 1024 / 1024} MB).`);
+    }
+    const lut = parseCubeFile(text);
+    if (lut.cube && lut.cube.size > CUSTOM_LUT_MAX_3D_SIZE) {
+        throw new LutParseError(`LUT_3D_SIZE maksimal ${CUSTOM_LUT_MAX_3D_SIZE} untuk LUT sendiri.`);
+    }
+    return lut;
+};
+
+export const createIdentityLut = (size = 33): Lut => {
+    const data = new Float32Array(size * size * size * 3);
+    let p = 0;
+    for (let b = 0; b < size; b++) for (let g = 0; g < size; g++) for (let r = 0; r < size; r++) {
+        data[p++] = r / (size - 1);
+        data[p++] = g / (size - 1);
+        data[p++] = b / (size - 1);
+    }
+    return { title: null, shaper: null, cube: { size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] } };
+};
+
+// Posisi kontinu di dalam tabel untuk satu kanal, sudah di-clamp ke tepi.
+const latticePosition = (value: number, min: number, max: number, size: number) => {
+    const t = (value - min) / (max - min);
+    return Math.max(0, Math.min(1, t)) * (size - 1);
+};
+
+const applyShaper = (shaper: LutTable, rgb: Vec3, interpolation: LutInterpolation): Vec3 => {
+    const out: Vec3 = [0, 0, 0];
+    const maxIndex = shaper.size - 1;
+    for (let c = 0; c < 3; c++) {
+        const pos = latticePosition(rgb[c], shaper.domainMin[c], shaper.domainMax[c], shaper.size);
+        if (interpolation === 'nearest') {
+            out[c] = shaper.data[Math.round(pos) * 3 + c];
+            continue;
+        }
+        const i0 = Math.floor(pos);
+        const i1 = Math.min(i0 + 1, maxIndex);
+        const f = pos - i0;
+        out[c] = shaper.data[i0 * 3 + c] * (1 - f) + shaper.data[i1 * 3 + c] * f;
+    }
+    return out;
+};
+
+const applyCube = (cube: LutTable, rgb: Vec3, interpolation: LutInterpolation): Vec3 => {
+    const { size, data } = cube;
+    const maxIndex = size - 1;
+    const pr = latticePosition(rgb[0], cube.domainMin[0], cube.domainMax[0], size);
+    const pg = latticePosition(rgb[1], cube.domainMin[1], cube.domainMax[1], size);
+    const pb = latticePosition(rgb[2], cube.domainMin[2], cube.domainMax[2], size);
+
+    if (interpolation === 'nearest') {
+        const baseIdx = (Math.round(pb) * size * size + Math.round(pg) * size + Math.round(pr)) * 3;
+        return [data[baseIdx], data[baseIdx + 1], data[baseIdx + 2]];
+    }
+
+    const r0 = Math.floor(pr), g0 = Math.floor(pg), b0 = Math.floor(pb);
+    const r1 = Math.min(r0 + 1, maxIndex), g1 = Math.min(g0 + 1, maxIndex), b1 = Math.min(b0 + 1, maxIndex);
+    const fr = pr - r0, fg = pg - g0, fb = pb - b0;
+    const idx = (ri: number, gi: number, bi: number) => (bi * size * size + gi * size + ri) * 3;
+
+    const c000 = idx(r0, g0, b0), c111 = idx(r1, g1, b1);
+    const out: Vec3 = [0, 0, 0];
+
+    if (interpolation === 'trilinear') {
+        const c100 = idx(r1, g0, b0), c010 = idx(r0, g1, b0), c110 = idx(r1, g1, b0);
+        const c001 = idx(r0, g0, b1), c101 = idx(r1, g0, b1), c011 = idx(r0, g1, b1);
+        for (let c = 0; c < 3; c++) {
+            const x00 = data[c000 + c] + (data[c100 + c] - data[c000 + c]) * fr;
+            const x10 = data[c010 + c] + (data[c110 + c] - data[c010 + c]) * fr;
+            const x01 = data[c001 + c] + (data[c101 + c] - data[c001 + c]) * fr;
+            const x11 = data[c011 + c] + (data[c111 + c] - data[c011 + c]) * fr;
+            const y0 = x00 + (x10 - x00) * fg;
+            const y1 = x01 + (x11 - x01) * fg;
+            out[c] = y0 + (y1 - y0) * fb;
+        }
+        return out;
+    }
+
+    // Tetrahedral: kubus sel dibagi menjadi enam tetrahedron menurut urutan
+    // fr/fg/fb, lalu hanya empat titik sudut yang diinterpolasi.
+    let cA: number, cB: number, wA: number, wB: number, wC: number, w0: number;
+    if (fr >= fg) {
+        if (fg >= fb) {
+            cA = idx(r1, g0, b0); cB = idx(r1, g1, b0);
+            w0 = 1 - fr; wA = fr - fg; wB = fg - fb; wC = fb;
+        } else if (fr >= fb) {
+            cA = idx(r1, g0, b0); cB = idx(r1, g0, b1);
+            w0 = 1 - fr; wA = fr - fb; wB = fb - fg; wC = fg;
+        } else {
+            cA = idx(r0, g0, b1); cB = idx(r1, g0, b1);
+            w0 = 1 - fb; wA = fb - fr; wB = fr - fg; wC = fg;
+        }
+    } else {
+        if (fb >= fg) {
+            cA = idx(r0, g0, b1); cB = idx(r0, g1, b1);
+            w0 = 1 - fb; wA = fb - fg; wB = fg - fr; wC = fr;
+        } else if (fb >= fr) {
+            cA = idx(r0, g1, b0); cB = idx(r0, g1, b1);
+            w0 = 1 - fg; wA = fg - fb; wB = fb - fr; wC = fr;
+        } else {
+            cA = idx(r0, g1, b0); cB = idx(r1, g1, b0);
+            w0 = 1 - fg; wA = fg - fr; wB = fr - fb; wC = fb;
+        }
+    }
+    for (let c = 0; c < 3; c++) {
+        out[c] = data[c000 + c] * w0 + data[cA + c] * wA + data[cB + c] * wB + data[c111 + c] * wC;
+    }
+    return out;
+};
+
+// Menerapkan LUT pada satu piksel 8-bit (0-255) dan mengembalikan hasil 0-255.
+export const applyLUT = (
+    lut: Lut,
+    r: number,
+    g: number,
+    b: number,
+    interpolation: LutInterpolation = DEFAULT_LUT_INTERPOLATION,
+): Vec3 => {
+    let rgb: Vec3 = [r / 255, g / 255, b / 255];
+    if (lut.shaper) rgb = applyShaper(lut.shaper, rgb, interpolation);
+    if (lut.cube) rgb = applyCube(lut.cube, rgb, interpolation);
+    return [
+        Math.max(0, Math.min(255, rgb[0] * 255)),
+        Math.max(0, Math.min(255, rgb[1] * 255)),
+        Math.max(0, Math.min(255, rgb[2] * 255)),
+    ];
+};
+
+// Ukuran kisi LUT campuran; cukup halus tanpa membuat bake terasa lambat.
+const MIXED_LUT_MIN_SIZE = 33;
+const MIXED_LUT_MAX_SIZE = 65;
+
+// Mencampur dua LUT menjadi satu LUT 3D: setiap titik kisi berisi
+// a*(1-amount) + b*amount (amount 0-1). Dipakai pratinjau dan server
+// sehingga campuran preset selalu sama. Input pipeline selalu sRGB 0-1,
+// jadi domain shaper/cube asli ikut terwakili.
+export const mixLuts = (a: Lut, b: Lut, amount: number): Lut => {
+    if (amount <= 0) return a;
+    if (amount >= 1) return b;
+    const size = Math.min(MIXED_LUT_MAX_SIZE, Math.max(MIXED_LUT_MIN_SIZE, a.cube?.size ?? 0, b.cube?.size ?? 0));
+    const data = new Float32Array(size * size * size * 3);
+    const step = 255 / (size - 1);
+    let p = 0;
+    for (let bi = 0; bi < size; bi++) for (let gi = 0; gi < size; gi++) for (let ri = 0; ri < size; ri++) {
+        const outA = applyLUT(a, ri * step, gi * step, bi * step, 'tetrahedral');
+        const outB = applyLUT(b, ri * step, gi * step, bi * step, 'tetrahedral');
+        for (let c = 0; c < 3; c++) data[p++] = (outA[c] * (1 - amount) + outB[c] * amount) / 255;
+    }
+    return { title: null, shaper: null, cube: { size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] } };
+};
+
+// Sampel ulang LUT apa pun menjadi LUT 3D murni berukuran size³ (shaper ikut
+// di-bake). Dipakai untuk LUT pratinjau preset berbayar yang sengaja kasar.
+export const resampleLut = (lut: Lut, size: number): Lut => {
+    const data = new Float32Array(size * size * size * 3);
+    const step = 255 / (size - 1);
+    let p = 0;
+    for (let bi = 0; bi < size; bi++) for (let gi = 0; gi < size; gi++) for (let ri = 0; ri < size; ri++) {
+        const out = applyLUT(lut, ri * step, gi * step, bi * step, 'tetrahedral');
+        for (let c = 0; c < 3; c++) data[p++] = out[c] / 255;
+    }
+    return { title: null, shaper: null, cube: { size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] } };
+};
@@ -0,0 +1,42 @@
+// Ekspor LUT: preset beserta semua slider di-bake menjadi satu LUT 3D .cube
+// untuk Lightroom/Resolve. Grain tidak ikut karena bergantung pada posisi
+// piksel, bukan hanya warnanya.
+import { Lut, Vec3 } from './lut';
+import { PipelineSettings, compilePipeline } from './pipeline';
+
+export const LUT_EXPORT_SIZES = [17, 33, 65] as const;
+
+export type LutExportSize = typeof LUT_EXPORT_SIZES[number];
+
+export const DEFAULT_LUT_EXPORT_SIZE: LutExportSize = 33;
+
+// Setiap titik kisi melewati operasi pipeline yang sama dengan ekspor foto,
+// dengan nilai float (tanpa pembulatan 8-bit di antaranya).
+export const bakeEditLut = (settings: PipelineSettings, lut: Lut, size: LutExportSize, title: string | null = null): Lut => {
+    const transforms = compilePipeline(settings, { lut, width: 1, height: 1, originX: 0, originY: 0 }, ['grain']);
+    const data = new Float32Array(size * size * size * 3);
+    const step = 255 / (size - 1);
+    const rgb: Vec3 = [0, 0, 0];
+    let p = 0;
+    for (let b = 0; b < size; b++) for (let g = 0; g < size; g++) for (let r = 0; r < size; r++) {
+        rgb[0] = r * step; rgb[1] = g * step; rgb[2] = b * step;
+        for (let t = 0; t < transforms.length; t++) transforms[t](rgb, 0, 0);
+        data[p++] = rgb[0] / 255;
+        data[p++] = rgb[1] / 255;
+        data[p++] = rgb[2] / 255;
+    }
+    return { title, shaper: null, cube: { size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] } };
+};
+
+export const buildLutTitle = (presetLabel: string): string => `${presetLabel} (edit masarif.id)`;
+
+// Nama file ASCII aman seperti nama file ekspor foto.
+export const buildLutFilename = (presetLabel: string, size: LutExportSize): string => {
+    const base = presetLabel
+        .replace(/[^A-Za-z0-9 _.-]+/g, '_')
+        .replace(/\s+/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^[._-]+|[._-]+$/g, '')
+        .slice(0, 100);
+    return `${base || 'preset'}_edit_${size}.cube`;
+};
@@ -0,0 +1,384 @@
+// Pipeline warna bersama: dipakai canvas pratinjau di browser dan
+// node-canvas di /api/process-image supaya hasilnya identik.
+import {
+    SRGB_TO_LINEAR_8BIT,
+    blacksCurve,
+    contrastCurve,
+    exposureGain,
+    highlightsCurve,
+    linearToSrgb,
+    luminance,
+    relativeSaturation,
+    shadowsCurve,
+    srgbToLinear,
+    whiteBalanceGains,
+    whitesCurve,
+} from './colorScience';
+import { GrainType, createGrainField, grainLuminanceResponse } from './grain';
+import { DEFAULT_LUT_INTERPOLATION, Lut, LutInterpolation, Vec3, applyLUT } from './lut';
+import { DEFAULT_TONE_CURVES, ToneCurves, buildCurveTable, hasToneCurves, isIdentityCurve, sampleCurveTable } from './toneCurve';
+
+export interface PipelineSettings {
+    exposure: number;
+    whiteBalance: number;
+    tint: number;
+    highlights: number;
+    shadows: number;
+    whites: number;
+    blacks: number;
+    contrast: number;
+    saturation: number;
+    vibrance: number;
+    grain: number;
+    grainSize: number;
+    grainType: GrainType;
+    grainSeed: number;
+    interpolation: LutInterpolation;
+    // Kekuatan LUT dalam persen (0-150); 100 = LUT penuh, di atasnya diperkuat.
+    intensity: number;
+    // Porsi preset kedua dalam persen (0-100). Dicampur saat LUT dimuat
+    // (mixLuts), bukan per piksel di pipeline.
+    blend: number;
+    // Kurva titik luma + R/G/B, diterapkan pada nilai sRGB sebelum LUT.
+    curves: ToneCurves;
+}
+
+export const DEFAULT_PIPELINE_SETTINGS: PipelineSettings = {
+    exposure: 0,
+    whiteBalance: 0,
+    tint: 0,
+    highlights: 0,
+    shadows: 0,
+    whites: 0,
+    blacks: 0,
+    contrast: 0,
+    saturation: 0,
+    vibrance: 0,
+    grain: 10,
+    grainSize: 25,
+    grainType: 'mono',
+    grainSeed: 1,
+    interpolation: DEFAULT_LUT_INTERPOLATION,
+    intensity: 100,
+    blend: 0,
+    curves: DEFAULT_TONE_CURVES,
+};
+
+export type NumericSetting = Exclude<keyof PipelineSettings, 'interpolation' | 'grainType' | 'grainSeed' | 'curves'>;
+
+// Sama dengan rentang slidersConfig di app/page.tsx; dipakai validasi
+// request di server dan resep edit di browser.
+export const SETTING_RANGES: Record<NumericSetting, [number, number]> = {
+    exposure: [-100, 100],
+    whiteBalance: [-100, 100],
+    tint: [-100, 100],
+    highlights: [-100, 100],
+    shadows: [-100, 100],
+    whites: [-100, 100],
+    blacks: [-100, 100],
+    contrast: [-100, 100],
+    saturation: [-100, 100],
+    vibrance: [-100, 100],
+    grain: [0, 100],
+    grainSize: [0, 100],
+    intensity: [0, 150],
+    blend: [0, 100],
+};
+
+// Cukup ImageData dari DOM maupun dari node-canvas.
+export interface PipelineImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+// Letak gambar di dalam foto yang lebih besar, bila gambar hanya potongannya
+// (pratinjau 1:1). Satuannya piksel gambar yang sedang dirender.
+export interface PipelineFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PipelineEnvironment {
+    lut: Lut;
+    // Ukuran foto utuh; sama dengan ukuran gambar kecuali saat merender potongan.
+    width: number;
+    height: number;
+    originX: number;
+    originY: number;
+}
+
+// Mengubah satu piksel. Nilai dalam sRGB 0-255, kecuali di antara operasi
+// 'decode' dan 'encode' di mana nilai berupa cahaya linear (1 = putih).
+export type PixelTransform = (rgb: Vec3, x: number, y: number) => void;
+
+export type PipelineOperationId =
+    | 'decode'
+    | 'exposure'
+    | 'whiteBalance'
+    | 'highlights'
+    | 'shadows'
+    | 'whites'
+    | 'blacks'
+    | 'contrast'
+    | 'saturation'
+    | 'vibrance'
+    | 'encode'
+    | 'clamp'
+    | 'curves'
+    | 'lut'
+    | 'grain';
+
+export interface PipelineOperation {
+    id: PipelineOperationId;
+    // Mengembalikan null bila operasi tidak berpengaruh untuk pengaturan ini.
+    prepare: (settings: PipelineSettings, env: PipelineEnvironment) => PixelTransform | null;
+}
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, v));
+
+// Tanpa penyesuaian, konversi linear dilewati agar piksel tetap persis.
+const LINEAR_LIGHT_SETTINGS = [
+    'exposure', 'whiteBalance', 'tint', 'highlights', 'shadows', 'whites', 'blacks', 'contrast', 'saturation', 'vibrance',
+] as const;
+
+const usesLinearLight = (settings: PipelineSettings) => LINEAR_LIGHT_SETTINGS.some(key => settings[key] !== 0);
+
+// Tabel untuk piksel 8-bit; nilai pecahan (titik kisi saat bake LUT) dihitung langsung.
+const decodeChannel = (v: number) => SRGB_TO_LINEAR_8BIT[v] ?? srgbToLinear(v / 255);
+
+const decodeOperation: PipelineOperation = {
+    id: 'decode',
+    prepare: (settings) => {
+        if (!usesLinearLight(settings)) return null;
+        return (rgb) => {
+            rgb[0] = decodeChannel(rgb[0]); rgb[1] = decodeChannel(rgb[1]); rgb[2] = decodeChannel(rgb[2]);
+        };
+    },
+};
+
+// Exposure dalam stop: mengalikan cahaya linear, bukan menambah offset.
+const exposureOperation: PipelineOperation = {
+    id: 'exposure',
+    prepare: ({ exposure }) => {
+        if (!exposure) return null;
+        const gain = exposureGain(exposure);
+        return (rgb) => { rgb[0] *= gain; rgb[1] *= gain; rgb[2] *= gain; };
+    },
+};
+
+const whiteBalanceOperation: PipelineOperation = {
+    id: 'whiteBalance',
+    prepare: ({ whiteBalance, tint }) => {
+        if (!whiteBalance && !tint) return null;
+        const [gr, gg, gb] = whiteBalanceGains(whiteBalance, tint);
+        return (rgb) => { rgb[0] *= gr; rgb[1] *= gg; rgb[2] *= gb; };
+    },
+};
+
+// Kurva diterapkan pada luminans perseptual, lalu RGB diskalakan dengan
+// rasio yang sama sehingga hue tidak bergeser.
+const toneCurveTransform = (curve: (lp: number, amount: number) => number, amount: number): PixelTransform => (rgb) => {
+    const y = luminance(rgb[0], rgb[1], rgb[2]);
+    if (y <= 0) return;
+    const target = srgbToLinear(Math.max(0, curve(linearToSrgb(y), amount)));
+    const ratio = target / y;
+    rgb[0] *= ratio; rgb[1] *= ratio; rgb[2] *= ratio;
+};
+
+const highlightsOperation: PipelineOperation = {
+    id: 'highlights',
+    prepare: ({ highlights }) => (highlights ? toneCurveTransform(highlightsCurve, highlights / 100) : null),
+};
+
+const shadowsOperation: PipelineOperation = {
+    id: 'shadows',
+    prepare: ({ shadows }) => (shadows ? toneCurveTransform(shadowsCurve, shadows / 100) : null),
+};
+
+const whitesOperation: PipelineOperation = {
+    id: 'whites',
+    prepare: ({ whites }) => (whites ? toneCurveTransform(whitesCurve, whites / 100) : null),
+};
+
+const blacksOperation: PipelineOperation = {
+    id: 'blacks',
+    prepare: ({ blacks }) => (blacks ? toneCurveTransform(blacksCurve, blacks / 100) : null),
+};
+
+const contrastOperation: PipelineOperation = {
+    id: 'contrast',
+    prepare: ({ contrast }) => (contrast ? toneCurveTransform(contrastCurve, contrast / 100) : null),
+};
+
+// Saturasi dan vibrance menskalakan jarak tiap kanal dari luminans linear,
+// jadi kecerahan piksel tidak berubah.
+const saturationOperation: PipelineOperation = {
+    id: 'saturation',
+    prepare: ({ saturation }) => {
+        if (!saturation) return null;
+        const k = 1 + saturation / 100;
+        return (rgb) => {
+            const y = luminance(rgb[0], rgb[1], rgb[2]);
+            rgb[0] = y + (rgb[0] - y) * k; rgb[1] = y + (rgb[1] - y) * k; rgb[2] = y + (rgb[2] - y) * k;
+        };
+    },
+};
+
+const vibranceOperation: PipelineOperation = {
+    id: 'vibrance',
+    prepare: ({ vibrance }) => {
+        if (!vibrance) return null;
+        const amount = vibrance / 100;
+        return (rgb) => {
+            const k = 1 + amount * (1 - relativeSaturation(rgb[0], rgb[1], rgb[2]));
+            const y = luminance(rgb[0], rgb[1], rgb[2]);
+            rgb[0] = y + (rgb[0] - y) * k; rgb[1] = y + (rgb[1] - y) * k; rgb[2] = y + (rgb[2] - y) * k;
+        };
+    },
+};
+
+const encodeOperation: PipelineOperation = {
+    id: 'encode',
+    prepare: (settings) => {
+        if (!usesLinearLight(settings)) return null;
+        return (rgb) => {
+            rgb[0] = linearToSrgb(Math.max(0, rgb[0])) * 255;
+            rgb[1] = linearToSrgb(Math.max(0, rgb[1])) * 255;
+            rgb[2] = linearToSrgb(Math.max(0, rgb[2])) * 255;
+        };
+    },
+};
+
+const clampOperation: PipelineOperation = {
+    id: 'clamp',
+    prepare: () => (rgb) => { rgb[0] = clamp255(rgb[0]); rgb[1] = clamp255(rgb[1]); rgb[2] = clamp255(rgb[2]); },
+};
+
+// Kurva luma menggeser ketiga kanal sebesar perubahan luminansnya (hue
+// tetap), lalu kurva R/G/B diterapkan per kanal.
+const curvesOperation: PipelineOperation = {
+    id: 'curves',
+    prepare: ({ curves }) => {
+        if (!hasToneCurves(curves)) return null;
+        const luma = isIdentityCurve(curves.luma) ? null : buildCurveTable(curves.luma);
+        const channels = [curves.red, curves.green, curves.blue].map(points => (isIdentityCurve(points) ? null : buildCurveTable(points)));
+        return (rgb) => {
+            if (luma) {
+                const y = luminance(rgb[0], rgb[1], rgb[2]);
+                const shift = sampleCurveTable(luma, y) - y;
+                rgb[0] = clamp255(rgb[0] + shift); rgb[1] = clamp255(rgb[1] + shift); rgb[2] = clamp255(rgb[2] + shift);
+            }
+            for (let c = 0; c < 3; c++) {
+                const table = channels[c];
+                if (table) rgb[c] = sampleCurveTable(table, rgb[c]);
+            }
+        };
+    },
+};
+
+// Intensitas menggeser hasil dari piksel sebelum LUT ke hasil LUT;
+// di atas 100% perbedaannya diperbesar lalu di-clamp.
+const lutOperation: PipelineOperation = {
+    id: 'lut',
+    prepare: ({ interpolation, intensity }, { lut }) => {
+        if (intensity === 100) {
+            return (rgb) => {
+                const out = applyLUT(lut, rgb[0], rgb[1], rgb[2], interpolation);
+                rgb[0] = out[0]; rgb[1] = out[1]; rgb[2] = out[2];
+            };
+        }
+        const k = intensity / 100;
+        return (rgb) => {
+            const out = applyLUT(lut, rgb[0], rgb[1], rgb[2], interpolation);
+            rgb[0] = clamp255(rgb[0] + (out[0] - rgb[0]) * k);
+            rgb[1] = clamp255(rgb[1] + (out[1] - rgb[1]) * k);
+            rgb[2] = clamp255(rgb[2] + (out[2] - rgb[2]) * k);
+        };
+    },
+};
+
+const grainOperation: PipelineOperation = {
+    id: 'grain',
+    prepare: ({ grain, grainSize, grainType, grainSeed }, { width, height, originX, originY }) => {
+        if (grain <= 0) return null;
+        const field = createGrainField(width, height, { size: grainSize, seed: grainSeed, type: grainType });
+        const noise: Vec3 = [0, 0, 0];
+        return (rgb, x, y) => {
+            field.sample(x + originX, y + originY, noise);
+            const luma = (0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2]) / 255;
+            const amount = grain * grainLuminanceResponse(luma);
+            rgb[0] = clamp255(rgb[0] + noise[0] * amount);
+            rgb[1] = clamp255(rgb[1] + noise[1] * amount);
+            rgb[2] = clamp255(rgb[2] + noise[2] * amount);
+        };
+    },
+};
+
+// Urutan operasi menentukan hasil akhir; jangan diubah tanpa mengubah
+// pratinjau dan server sekaligus (keduanya membaca daftar ini).
+export const PIPELINE_OPERATIONS: readonly PipelineOperation[] = [
+    decodeOperation,
+    exposureOperation,
+    whiteBalanceOperation,
+    highlightsOperation,
+    shadowsOperation,
+    whitesOperation,
+    blacksOperation,
+    contrastOperation,
+    saturationOperation,
+    vibranceOperation,
+    encodeOperation,
+    clampOperation,
+    curvesOperation,
+    lutOperation,
+    grainOperation,
+];
+
+export interface RenderOptions {
+    // Baris [rowStart, rowEnd) yang diproses; default seluruh gambar.
+    rowStart?: number;
+    rowEnd?: number;
+    exclude?: PipelineOperationId[];
+    // Grain mengikuti ukuran dan posisi foto utuh agar polanya sama dengan ekspor.
+    frame?: PipelineFrame;
+}
+
+export const compilePipeline = (
+    settings: PipelineSettings,
+    env: PipelineEnvironment,
+    exclude: PipelineOperationId[] = [],
+): PixelTransform[] =>
+    PIPELINE_OPERATIONS
+        .filter(op => !exclude.includes(op.id))
+        .map(op => op.prepare(settings, env))
+        .filter((fn): fn is PixelTransform => fn !== null);
+
+// Memproses piksel di tempat (in-place).
+export const renderPipeline = (
+    image: PipelineImage,
+    settings: PipelineSettings,
+    lut: Lut,
+    options: RenderOptions = {},
+): void => {
+    const { data, width, height } = image;
+    const { frame } = options;
+    const env: PipelineEnvironment = frame
+        ? { lut, width: frame.width, height: frame.height, originX: frame.x, originY: frame.y }
+        : { lut, width, height, originX: 0, originY: 0 };
+    const transforms = compilePipeline(settings, env, options.exclude);
+    const rowStart = options.rowStart ?? 0;
+    const rowEnd = Math.min(options.rowEnd ?? height, height);
+    const rgb: Vec3 = [0, 0, 0];
+
+    for (let y = rowStart; y < rowEnd; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            rgb[0] = data[i]; rgb[1] = data[i + 1]; rgb[2] = data[i + 2];
+            for (let t = 0; t < transforms.length; t++) transforms[t](rgb, x, y);
+            data[i] = rgb[0]; data[i + 1] = rgb[1]; data[i + 2] = rgb[2];
+        }
+    }
+};
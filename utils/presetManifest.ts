@@ -0,0 +1,178 @@
+// Katalog preset dibaca dari presets/manifest.json, sehingga tim store bisa
+// menambah preset tanpa menyentuh kode React.
+
+export interface PresetEntry {
+    id: string;
+    label: string;
+    file: string;
+    thumbnail: string | null;
+    storeUrl?: string;
+    // Preset berbayar: tanpa lisensi, pratinjau memakai LUT kasar dan hasil
+    // ekspor diberi watermark. Default mengikuti "paid" milik kategori.
+    paid: boolean;
+}
+
+export interface PresetCategory {
+    id: string;
+    label: string;
+    storeUrl?: string;
+    presets: PresetEntry[];
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' | 'tile';
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center', 'tile'];
+
+// Tampilan hasil ekspor preset berbayar tanpa lisensi.
+export interface WatermarkConfig {
+    text: string | null;
+    // File PNG di folder presets/, digambar di samping/atas teks.
+    logo: string | null;
+    position: WatermarkPosition;
+    // 0-1
+    opacity: number;
+    // Sisi panjang maksimum hasil; null = resolusi penuh.
+    maxLongEdge: number | null;
+}
+
+export const DEFAULT_WATERMARK: WatermarkConfig = {
+    text: 'masarif.id',
+    logo: null,
+    position: 'bottom-right',
+    opacity: 0.6,
+    maxLongEdge: 2048,
+};
+
+export interface PresetManifest {
+    defaultStoreUrl: string;
+    categories: PresetCategory[];
+    watermark: WatermarkConfig;
+}
+
+// Versi yang dikirim ke browser: nama file diganti URL LUT-nya.
+export type PublicPresetEntry = Omit<PresetEntry, 'file'> & { lutUrl: string };
+export type PublicPresetCategory = Omit<PresetCategory, 'presets'> & { presets: PublicPresetEntry[] };
+export interface PublicPresetManifest {
+    defaultStoreUrl: string;
+    categories: PublicPresetCategory[];
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// presetId untuk LUT yang diunggah pengguna. Memakai "_" yang tidak lolos
+// ID_PATTERN, jadi tidak akan bentrok dengan preset di manifest.
+export const CUSTOM_LUT_PRESET_ID = 'custom_lut';
+const FILE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]*\.cube$/;
+const LOGO_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]*\.png$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (value: unknown, where: string): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`Manifest preset tidak valid: ${where} harus berupa teks.`);
+    }
+    return value;
+};
+
+const optionalString = (value: unknown, where: string): string | undefined =>
+    value === undefined || value === null ? undefined : requireString(value, where);
+
+const optionalBoolean = (value: unknown, where: string): boolean | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') throw new Error(`Manifest preset tidak valid: ${where} harus true atau false.`);
+    return value;
+};
+
+const validateWatermark = (raw: unknown): WatermarkConfig => {
+    if (raw === undefined || raw === null) return DEFAULT_WATERMARK;
+    if (!isObject(raw)) throw new Error('Manifest preset tidak valid: watermark harus berupa objek.');
+    const text = raw.text === null ? null : optionalString(raw.text, 'watermark.text') ?? DEFAULT_WATERMARK.text;
+    const logo = optionalString(raw.logo, 'watermark.logo') ?? null;
+    if (logo && !LOGO_PATTERN.test(logo)) throw new Error(`Manifest preset tidak valid: logo watermark "${logo}" harus file .png.`);
+    if (!text && !logo) throw new Error('Manifest preset tidak valid: watermark butuh text atau logo.');
+    const position = raw.position ?? DEFAULT_WATERMARK.position;
+    if (!WATERMARK_POSITIONS.includes(position as WatermarkPosition)) {
+        throw new Error(`Manifest preset tidak valid: watermark.position harus salah satu dari ${WATERMARK_POSITIONS.join(', ')}.`);
+    }
+    const opacity = raw.opacity ?? DEFAULT_WATERMARK.opacity;
+    if (typeof opacity !== 'number' || !(opacity > 0 && opacity <= 1)) {
+        throw new Error('Manifest preset tidak valid: watermark.opacity harus angka di atas 0 sampai 1.');
+    }
+    const maxLongEdge = raw.maxLongEdge === undefined ? DEFAULT_WATERMARK.maxLongEdge : raw.maxLongEdge;
+    if (maxLongEdge !== null && (!Number.isInteger(maxLongEdge) || (maxLongEdge as number) < 256)) {
+        throw new Error('Manifest preset tidak valid: watermark.maxLongEdge harus bilangan bulat minimal 256 atau null.');
+    }
+    return { text, logo, position: position as WatermarkPosition, opacity, maxLongEdge: maxLongEdge as number | null };
+};
+
+export const validatePresetManifest = (raw: unknown): PresetManifest => {
+    if (!isObject(raw) || !Array.isArray(raw.categories)) {
+        throw new Error('Manifest preset tidak valid: daftar categories tidak ditemukan.');
+    }
+    const seenIds = new Set<string>();
+    const categories = raw.categories.map((category, ci): PresetCategory => {
+        if (!isObject(category) || !Array.isArray(category.presets)) {
+            throw new Error(`Manifest preset tidak valid: categories[${ci}] tidak memiliki presets.`);
+        }
+        const id = requireString(category.id, `categories[${ci}].id`);
+        if (!ID_PATTERN.test(id)) throw new Error(`Manifest preset tidak valid: id kategori "${id}" tidak diizinkan.`);
+        const categoryPaid = optionalBoolean(category.paid, `categories[${ci}].paid`) ?? false;
+        return {
+            id,
+            label: requireString(category.label, `categories[${ci}].label`),
+            storeUrl: optionalString(category.storeUrl, `categories[${ci}].storeUrl`),
+            presets: category.presets.map((preset, pi): PresetEntry => {
+                const where = `categories[${ci}].presets[${pi}]`;
+                if (!isObject(preset)) throw new Error(`Manifest preset tidak valid: ${where} harus berupa objek.`);
+                const presetId = requireString(preset.id, `${where}.id`);
+                if (!ID_PATTERN.test(presetId)) throw new Error(`Manifest preset tidak valid: id preset "${presetId}" tidak diizinkan.`);
+                if (seenIds.has(presetId)) throw new Error(`Manifest preset tidak valid: id preset "${presetId}" duplikat.`);
+                seenIds.add(presetId);
+                const file = requireString(preset.file, `${where}.file`);
+                if (!FILE_PATTERN.test(file)) throw new Error(`Manifest preset tidak valid: nama file "${file}" tidak diizinkan.`);
+                return {
+                    id: presetId,
+                    label: requireString(preset.label, `${where}.label`),
+                    file,
+                    thumbnail: optionalString(preset.thumbnail, `${where}.thumbnail`) ?? null,
+                    storeUrl: optionalString(preset.storeUrl, `${where}.storeUrl`),
+                    paid: optionalBoolean(preset.paid, `${where}.paid`) ?? categoryPaid,
+                };
+            }),
+        };
+    });
+    return {
+        defaultStoreUrl: requireString(raw.defaultStoreUrl, 'defaultStoreUrl'),
+        categories,
+        watermark: validateWatermark(raw.watermark),
+    };
+};
+
+export const toPublicManifest = (manifest: PresetManifest): PublicPresetManifest => ({
+    defaultStoreUrl: manifest.defaultStoreUrl,
+    categories: manifest.categories.map(category => ({
+        ...category,
+        presets: category.presets.map(({ file: _file, ...preset }) => ({
+            ...preset,
+            lutUrl: `/api/presets/${preset.id}/lut`,
+        })),
+    })),
+});
+
+export const findPreset = <C extends { presets: { id: string }[] }>(
+    manifest: { categories: C[] },
+    presetId: string,
+): { category: C; preset: C['presets'][number] } | null => {
+    for (const category of manifest.categories) {
+        const preset = category.presets.find(p => p.id === presetId);
+        if (preset) return { category, preset };
+    }
+    return null;
+};
+
+// Link "Beli": preset > kategori > default manifest.
+export const getStoreUrl = (manifest: PresetManifest | PublicPresetManifest, presetId: string | null): string => {
+    const found = presetId ? findPreset<PresetCategory | PublicPresetCategory>(manifest, presetId) : null;
+    return found?.preset.storeUrl ?? found?.category.storeUrl ?? manifest.defaultStoreUrl;
+};
@@ -0,0 +1,44 @@
+// Khusus server: membaca manifest dan file .cube dari folder presets/.
+import fs from 'fs/promises';
+import path from 'path';
+import { Lut, parseCubeFile } from './lut';
+import { PresetEntry, PresetManifest, findPreset, validatePresetManifest } from './presetManifest';
+
+export const PRESETS_DIR = path.join(process.cwd(), 'presets');
+
+// Manifest dibaca ulang setiap kali, jadi preset baru langsung terlihat
+// tanpa restart server.
+export const loadPresetManifest = async (): Promise<PresetManifest> => {
+    const content = await fs.readFile(path.join(PRESETS_DIR, 'manifest.json'), 'utf-8');
+    return validatePresetManifest(JSON.parse(content));
+};
+
+export const getPreset = async (presetId: string): Promise<PresetEntry | null> => {
+    const manifest = await loadPresetManifest();
+    return findPreset(manifest, presetId)?.preset ?? null;
+};
+
+// Nama file sudah dibatasi oleh validatePresetManifest; ini lapisan kedua
+// agar path tidak pernah keluar dari folder presets/.
+export const resolvePresetFile = (file: string): string => {
+    const filePath = path.resolve(PRESETS_DIR, file);
+    if (path.dirname(filePath) !== PRESETS_DIR) {
+        throw new Error(`Path ${file} berada di luar folder presets.`);
+    }
+    return filePath;
+};
+
+export const resolvePresetPath = (preset: PresetEntry): string => resolvePresetFile(preset.file);
+
+export const readPresetCubeText = async (preset: PresetEntry): Promise<string> =>
+    fs.readFile(resolvePresetPath(preset), 'utf-8');
+
+export const readPresetLut = async (preset: PresetEntry): Promise<Lut> => {
+    const filePath = resolvePresetPath(preset);
+    try {
+        return parseCubeFile(await readPresetCubeText(preset));
+    } catch (error) {
+        console.error(`[SERVER] Gagal membaca atau parsing file LUT: ${filePath}`, error);
+        throw error;
+    }
+};
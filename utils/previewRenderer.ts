@@ -0,0 +1,159 @@
+// Renderer pratinjau: menjalankan pipeline di Web Worker (OffscreenCanvas)
+// agar slider tidak membekukan UI. Hanya job terakhir yang dirender
+// (latest-wins); job lama dibatalkan di tengah jalan.
+import type { Lut } from './lut';
+import { PipelineFrame, PipelineSettings, renderPipeline } from './pipeline';
+import { WebGLPreviewRenderer } from './webglPreviewRenderer';
+
+export type PreviewPass = 'draft' | 'full';
+
+export type PreviewWorkerRequest =
+    | { type: 'source'; bitmap: ImageBitmap; width: number; height: number; frame?: PipelineFrame }
+    | { type: 'lut'; lut: Lut }
+    | { type: 'render'; jobId: number; settings: PipelineSettings };
+
+export type PreviewWorkerResponse =
+    | { type: 'frame'; jobId: number; pass: PreviewPass; bitmap: ImageBitmap }
+    | { type: 'done'; jobId: number }
+    | { type: 'error'; jobId: number; message: string };
+
+export interface PreviewRenderCallbacks {
+    // Dipanggil untuk pass kasar (resolusi rendah) lalu pass penuh.
+    onFrame: (image: CanvasImageSource, pass: PreviewPass) => void;
+    onDone: () => void;
+    onError?: (message: string) => void;
+}
+
+export type PreviewSourceImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Kontrak bersama renderer CPU (worker) dan GPU (WebGL2).
+export interface PreviewBackend {
+    setSource: (image: PreviewSourceImage) => void;
+    setLut: (lut: Lut) => void;
+    render: (settings: PipelineSettings, callbacks: PreviewRenderCallbacks) => void;
+    dispose: () => void;
+}
+
+export type PreviewBackendKind = 'gpu' | 'cpu';
+
+export class PreviewRenderer implements PreviewBackend {
+    private worker: Worker | null = null;
+    private queue: Promise<void> = Promise.resolve();
+    private latestJobId = 0;
+    private callbacks: PreviewRenderCallbacks | null = null;
+
+    // Jalur cadangan di main thread bila Worker/OffscreenCanvas tidak ada.
+    private fallbackSource: ImageData | null = null;
+    private fallbackLut: Lut | null = null;
+    private fallbackFrame: PipelineFrame | undefined;
+    private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+    static isWorkerSupported(): boolean {
+        return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+    }
+
+    constructor() {
+        if (PreviewRenderer.isWorkerSupported()) {
+            this.worker = new Worker(new URL('./previewRenderer.worker.ts', import.meta.url));
+            this.worker.onmessage = (e: MessageEvent<PreviewWorkerResponse>) => this.handleMessage(e.data);
+        }
+    }
+
+    // Pesan diantrekan agar urutan source → lut → render selalu terjaga,
+    // walaupun createImageBitmap bersifat async.
+    private post(build: () => Promise<[PreviewWorkerRequest, Transferable[]]> | [PreviewWorkerRequest, Transferable[]]) {
+        this.queue = this.queue
+            .then(async () => {
+                const [message, transfer] = await build();
+                this.worker?.postMessage(message, transfer);
+            })
+            .catch(error => console.error("Gagal mengirim data ke worker pratinjau:", error));
+    }
+
+    // frame diisi bila image adalah potongan foto (lihat PipelineFrame).
+    setSource(image: PreviewSourceImage, frame?: PipelineFrame): void {
+        const { width, height } = image;
+        if (this.worker) {
+            this.post(async () => {
+                const bitmap = await createImageBitmap(image);
+                return [{ type: 'source', bitmap, width, height, frame }, [bitmap]];
+            });
+            return;
+        }
+        this.fallbackFrame = frame;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+        ctx.drawImage(image, 0, 0, width, height);
+        this.fallbackSource = ctx.getImageData(0, 0, width, height);
+    }
+
+    setLut(lut: Lut): void {
+        if (this.worker) {
+            this.post(() => [{ type: 'lut', lut }, []]);
+            return;
+        }
+        this.fallbackLut = lut;
+    }
+
+    render(settings: PipelineSettings, callbacks: PreviewRenderCallbacks): void {
+        const jobId = ++this.latestJobId;
+        this.callbacks = callbacks;
+        if (this.worker) {
+            this.post(() => [{ type: 'render', jobId, settings }, []]);
+            return;
+        }
+        if (this.fallbackTimer) clearTimeout(this.fallbackTimer);
+        this.fallbackTimer = setTimeout(() => this.renderOnMainThread(jobId, settings), 20);
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.callbacks = null;
+        if (this.fallbackTimer) clearTimeout(this.fallbackTimer);
+    }
+
+    private handleMessage(message: PreviewWorkerResponse) {
+        const isLatest = message.jobId === this.latestJobId && this.callbacks;
+        if (message.type === 'frame') {
+            if (isLatest) this.callbacks?.onFrame(message.bitmap, message.pass);
+            message.bitmap.close();
+        } else if (!isLatest) {
+            return;
+        } else if (message.type === 'done') {
+            this.callbacks?.onDone();
+        } else {
+            console.error("Gagal merender pratinjau:", message.message);
+            this.callbacks?.onError?.(message.message);
+            this.callbacks?.onDone();
+        }
+    }
+
+    private renderOnMainThread(jobId: number, settings: PipelineSettings) {
+        const callbacks = this.callbacks;
+        if (jobId !== this.latestJobId || !callbacks) return;
+        const source = this.fallbackSource;
+        const lut = this.fallbackLut;
+        if (source && lut) {
+            const imageData = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+            renderPipeline(imageData, settings, lut, { frame: this.fallbackFrame });
+            const canvas = document.createElement('canvas');
+            canvas.width = imageData.width;
+            canvas.height = imageData.height;
+            canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+            callbacks.onFrame(canvas, 'full');
+        }
+        callbacks.onDone();
+    }
+}
+
+// GPU bila WebGL2 (hardware) tersedia, selain itu worker CPU.
+// maxPreviewEdge null berarti memakai batas pratinjau CPU bawaan halaman.
+export const createPreviewBackend = (): { backend: PreviewBackend; kind: PreviewBackendKind; maxPreviewEdge: number | null } => {
+    const gpu = WebGLPreviewRenderer.create();
+    if (gpu) return { backend: gpu, kind: 'gpu', maxPreviewEdge: gpu.maxPreviewEdge };
+    return { backend: new PreviewRenderer(), kind: 'cpu', maxPreviewEdge: null };
+};
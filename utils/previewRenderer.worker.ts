@@ -0,0 +1,124 @@
+// Worker pratinjau: lihat PreviewRenderer di previewRenderer.ts.
+import type { Lut } from './lut';
+import { PipelineFrame, PipelineSettings, renderPipeline } from './pipeline';
+import type { PreviewPass, PreviewWorkerRequest, PreviewWorkerResponse } from './previewRenderer';
+
+// Pass kasar dirender di 1/4 resolusi agar respons slider terasa instan.
+const DRAFT_SCALE = 0.25;
+// Jumlah baris per potongan; di antara potongan worker memberi kesempatan
+// pesan baru masuk sehingga job lama bisa dibatalkan.
+const BAND_ROWS = 32;
+
+interface RenderJob {
+    jobId: number;
+    settings: PipelineSettings;
+}
+
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<PreviewWorkerRequest>) => void) | null;
+    postMessage: (message: PreviewWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+let fullSource: ImageData | null = null;
+let draftSource: ImageData | null = null;
+let fullFrame: PipelineFrame | undefined;
+let draftFrame: PipelineFrame | undefined;
+let activeLut: Lut | null = null;
+let pendingJob: RenderJob | null = null;
+let latestJobId = 0;
+let isRunning = false;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const readPixels = (bitmap: ImageBitmap, width: number, height: number): ImageData => {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('OffscreenCanvas 2D tidak tersedia.');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+const postFrame = (jobId: number, pass: PreviewPass, imageData: ImageData) => {
+    const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+    canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+    const bitmap = canvas.transferToImageBitmap();
+    scope.postMessage({ type: 'frame', jobId, pass, bitmap }, [bitmap]);
+};
+
+// Mengembalikan null bila job sudah digantikan job yang lebih baru.
+const renderInBands = async (source: ImageData, lut: Lut, job: RenderJob): Promise<ImageData | null> => {
+    const output = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+    for (let row = 0; row < output.height; row += BAND_ROWS) {
+        renderPipeline(output, job.settings, lut, { rowStart: row, rowEnd: row + BAND_ROWS, frame: fullFrame });
+        await yieldToEventLoop();
+        if (job.jobId !== latestJobId) return null;
+    }
+    return output;
+};
+
+const runJob = async (job: RenderJob) => {
+    const lut = activeLut;
+    if (!fullSource || !draftSource || !lut) {
+        scope.postMessage({ type: 'done', jobId: job.jobId });
+        return;
+    }
+
+    const draft = new ImageData(new Uint8ClampedArray(draftSource.data), draftSource.width, draftSource.height);
+    renderPipeline(draft, job.settings, lut, { frame: draftFrame });
+    postFrame(job.jobId, 'draft', draft);
+
+    await yieldToEventLoop();
+    if (job.jobId !== latestJobId) return;
+
+    const full = await renderInBands(fullSource, lut, job);
+    if (!full) return;
+    postFrame(job.jobId, 'full', full);
+    scope.postMessage({ type: 'done', jobId: job.jobId });
+};
+
+const processQueue = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    while (pendingJob) {
+        const job = pendingJob;
+        pendingJob = null;
+        try {
+            await runJob(job);
+        } catch (error) {
+            scope.postMessage({ type: 'error', jobId: job.jobId, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    isRunning = false;
+};
+
+scope.onmessage = (e) => {
+    const message = e.data;
+    switch (message.type) {
+        case 'source': {
+            const { bitmap, width, height, frame } = message;
+            fullSource = readPixels(bitmap, width, height);
+            draftSource = readPixels(
+                bitmap,
+                Math.max(1, Math.round(width * DRAFT_SCALE)),
+                Math.max(1, Math.round(height * DRAFT_SCALE)),
+            );
+            fullFrame = frame;
+            draftFrame = frame && {
+                x: frame.x * DRAFT_SCALE,
+                y: frame.y * DRAFT_SCALE,
+                width: frame.width * DRAFT_SCALE,
+                height: frame.height * DRAFT_SCALE,
+            };
+            bitmap.close();
+            break;
+        }
+        case 'lut':
+            activeLut = message.lut;
+            break;
+        case 'render':
+            latestJobId = message.jobId;
+            pendingJob = { jobId: message.jobId, settings: message.settings };
+            processQueue();
+            break;
+    }
+};
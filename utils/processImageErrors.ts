@@ -0,0 +1,72 @@
+// Kode error terstruktur dari /api/process-image. Dipakai server untuk
+// membangun respons dan klien untuk memetakan kode ke pesan.
+
+export type ProcessImageErrorCode =
+    | 'INVALID_BODY'
+    | 'INVALID_IMAGE'
+    | 'UNSUPPORTED_MIME'
+    | 'IMAGE_TOO_LARGE'
+    | 'INVALID_SETTINGS'
+    | 'INVALID_EXPORT_OPTIONS'
+    | 'PRESET_NOT_FOUND'
+    | 'PRESET_INVALID'
+    | 'INVALID_LUT'
+    | 'LUT_TOO_LARGE'
+    | 'LICENSE_REQUIRED'
+    | 'INVALID_LICENSE'
+    | 'EXPORT_CANCELLED'
+    | 'JOB_NOT_FOUND'
+    | 'SERVER_BUSY'
+    | 'INTERNAL_ERROR';
+
+export const PROCESS_IMAGE_ERROR_MESSAGES: Record<ProcessImageErrorCode, string> = {
+    INVALID_BODY: 'Data yang dikirim tidak lengkap.',
+    INVALID_IMAGE: 'Gambar tidak valid atau rusak.',
+    UNSUPPORTED_MIME: 'Format gambar ini tidak bisa diproses di server. Gunakan JPG, PNG, WebP, GIF, TIFF, atau RAW.',
+    IMAGE_TOO_LARGE: 'Ukuran gambar terlalu besar untuk diproses.',
+    INVALID_SETTINGS: 'Pengaturan slider tidak valid.',
+    INVALID_EXPORT_OPTIONS: 'Opsi ekspor tidak valid.',
+    PRESET_NOT_FOUND: 'Preset tidak ditemukan.',
+    PRESET_INVALID: 'File preset rusak atau tidak valid.',
+    INVALID_LUT: 'File LUT tidak valid.',
+    LUT_TOO_LARGE: 'File LUT terlalu besar.',
+    LICENSE_REQUIRED: 'Preset ini berbayar. Masukkan kode lisensi untuk mengunduh LUT-nya.',
+    INVALID_LICENSE: 'Kode lisensi tidak valid atau sudah kedaluwarsa.',
+    EXPORT_CANCELLED: 'Proses dibatalkan.',
+    JOB_NOT_FOUND: 'Job ekspor tidak ditemukan.',
+    SERVER_BUSY: 'Server sedang sibuk. Coba lagi sebentar lagi.',
+    INTERNAL_ERROR: 'Terjadi kesalahan internal di server.',
+};
+
+const ERROR_STATUS: Record<ProcessImageErrorCode, number> = {
+    INVALID_BODY: 400,
+    INVALID_IMAGE: 400,
+    UNSUPPORTED_MIME: 415,
+    IMAGE_TOO_LARGE: 413,
+    INVALID_SETTINGS: 400,
+    INVALID_EXPORT_OPTIONS: 400,
+    PRESET_NOT_FOUND: 404,
+    PRESET_INVALID: 422,
+    INVALID_LUT: 400,
+    LUT_TOO_LARGE: 413,
+    LICENSE_REQUIRED: 403,
+    INVALID_LICENSE: 400,
+    EXPORT_CANCELLED: 409,
+    JOB_NOT_FOUND: 404,
+    SERVER_BUSY: 503,
+    INTERNAL_ERROR: 500,
+};
+
+export class ProcessImageError extends Error {
+    code: ProcessImageErrorCode;
+    status: number;
+    field?: string;
+
+    constructor(code: ProcessImageErrorCode, message?: string, field?: string) {
+        super(message ?? PROCESS_IMAGE_ERROR_MESSAGES[code]);
+        this.name = 'ProcessImageError';
+        this.code = code;
+        this.status = ERROR_STATUS[code];
+        this.field = field;
+    }
+}
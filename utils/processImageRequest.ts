@@ -0,0 +1,481 @@
+// Khusus server: validasi body /api/process-image, /api/process-batch dan /api/export-lut.
+import {
+    DEFAULT_EXPORT_OPTIONS,
+    EXPORT_FORMATS,
+    ExportFormat,
+    ExportOptions,
+    LONG_EDGE_RANGE,
+    MAX_BATCH_ITEMS,
+    MAX_FILENAME_TEMPLATE_LENGTH,
+    QUALITY_RANGE,
+} from './exportOptions';
+import { EXPORT_JOB_ID_PATTERN } from './exportProgress';
+import { GRAIN_TYPES, GrainType } from './grain';
+import { CUSTOM_LUT_MAX_BYTES, DEFAULT_LUT_INTERPOLATION, LUT_INTERPOLATIONS, Lut, LutInterpolation, LutParseError, parseCustomLut } from './lut';
+import { DEFAULT_LUT_EXPORT_SIZE, LUT_EXPORT_SIZES, LutExportSize } from './lutExport';
+import { DEFAULT_PIPELINE_SETTINGS, NumericSetting, PipelineSettings, SETTING_RANGES } from './pipeline';
+import { ProcessImageError } from './processImageErrors';
+import { ToneCurveError, parseToneCurves } from './toneCurve';
+import { RAW_IMAGE_MIME, hasRawSignature } from './rawPreview';
+
+export type ProcessImageSettings = PipelineSettings;
+
+// Satu foto beserta preset dan pengaturannya, untuk permintaan tunggal
+// maupun tiap foto dalam batch.
+export interface ExportItemRequest {
+    image: { mime: string; buffer: Buffer };
+    presetId: string;
+    // Preset kedua yang dicampur sebanyak settings.blend persen; null bila tidak ada.
+    blendPresetId: string | null;
+    settings: ProcessImageSettings;
+    // Hapus data lokasi dari EXIF yang disalin ke hasil ekspor.
+    stripGps: boolean;
+    // Nama file asli dari klien, untuk template nama file hasil.
+    sourceName: string;
+}
+
+// LUT .cube yang diunggah pengguna, dipakai item dengan presetId CUSTOM_LUT_PRESET_ID.
+export interface CustomLutUpload {
+    name: string;
+    lut: Lut;
+}
+
+export interface ProcessImageRequest extends ExportItemRequest {
+    exportOptions: ExportOptions;
+    // Id job untuk progres/pembatalan; null bila klien tidak memantau.
+    jobId: string | null;
+    customLut: CustomLutUpload | null;
+}
+
+// Opsi ekspor, job dan LUT sendiri berlaku untuk seluruh batch; preset dan slider per foto.
+export interface ProcessBatchRequest {
+    items: ExportItemRequest[];
+    exportOptions: ExportOptions;
+    jobId: string | null;
+    customLut: CustomLutUpload | null;
+}
+
+// Preset + slider yang di-bake menjadi file .cube (tanpa foto).
+export interface ExportLutRequest {
+    presetId: string;
+    blendPresetId: string | null;
+    settings: ProcessImageSettings;
+    size: LutExportSize;
+    customLut: CustomLutUpload | null;
+}
+
+// Ditambahkan belakangan; klien lama yang tidak mengirimnya memakai nilai default.
+const OPTIONAL_SETTINGS: NumericSetting[] = ['intensity', 'blend', 'tint', 'whites', 'blacks', 'contrast', 'saturation', 'vibrance'];
+
+// File RAW dikirim apa adanya dan didemosaic di server (utils/rawDecoder.ts).
+export const SUPPORTED_IMAGE_MIMES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/tiff', RAW_IMAGE_MIME];
+
+export const MAX_IMAGE_BYTES = 60 * 1024 * 1024;
+
+// Batas ukuran gambar setelah didekode (cukup untuk kamera 100 MP). File
+// terkompresi kecil bisa mengaku berukuran sangat besar, jadi ukurannya
+// dicek dari header sebelum piksel didekode.
+export const MAX_IMAGE_PIXELS = 120 * 1000 * 1000;
+
+export const assertImagePixels = (width: number, height: number, field?: string) => {
+    if (width * height > MAX_IMAGE_PIXELS) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', `Gambar ${width}×${height} melebihi batas ${MAX_IMAGE_PIXELS / 1000000} megapiksel.`, field);
+    }
+};
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z0-9.+-]+);base64,/i;
+
+// Tanda tangan byte awal untuk memastikan isi file cocok dengan MIME-nya.
+const sniffMime = (buffer: Buffer): string | null => {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) return 'image/gif';
+    // RAW berbasis TIFF dicek lebih dulu; sisanya TIFF biasa.
+    if (hasRawSignature(buffer)) return RAW_IMAGE_MIME;
+    if (buffer.length >= 8 && ['II*\0', 'MM\0*'].includes(buffer.toString('latin1', 0, 4))) return 'image/tiff';
+    return null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeMime = (mime: string): string => {
+    const lower = mime.toLowerCase();
+    return lower === 'image/jpg' ? 'image/jpeg' : lower;
+};
+
+export const parseImageDataUrl = (imageSrc: unknown): { mime: string; buffer: Buffer } => {
+    if (typeof imageSrc !== 'string') {
+        throw new ProcessImageError('INVALID_IMAGE', 'imageSrc harus berupa data URL.', 'imageSrc');
+    }
+    const match = imageSrc.match(DATA_URL_PATTERN);
+    if (!match) {
+        throw new ProcessImageError('INVALID_IMAGE', 'imageSrc harus berupa data URL base64.', 'imageSrc');
+    }
+    const mime = normalizeMime(match[1]);
+    if (!SUPPORTED_IMAGE_MIMES.includes(mime)) {
+        throw new ProcessImageError('UNSUPPORTED_MIME', undefined, 'imageSrc');
+    }
+    const base64 = imageSrc.slice(match[0].length);
+    if (base64.length * 0.75 > MAX_IMAGE_BYTES) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', undefined, 'imageSrc');
+    }
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+        throw new ProcessImageError('INVALID_IMAGE', 'Data base64 gambar rusak.', 'imageSrc');
+    }
+    const buffer = Buffer.from(base64, 'base64');
+    if (sniffMime(buffer) !== mime) {
+        throw new ProcessImageError('INVALID_IMAGE', 'Isi gambar tidak sesuai dengan tipe MIME-nya.', 'imageSrc');
+    }
+    return { mime, buffer };
+};
+
+// Gambar biner dari multipart atau body mentah. Tipe kosong/octet-stream
+// ditentukan dari isi file; tipe lain harus cocok dengan isinya.
+export const parseImageBuffer = (buffer: Buffer, declaredType: string, field: string): { mime: string; buffer: Buffer } => {
+    const declared = normalizeMime(declaredType.split(';')[0].trim());
+    const untyped = declared === '' || declared === 'application/octet-stream';
+    if (!untyped && !SUPPORTED_IMAGE_MIMES.includes(declared)) {
+        throw new ProcessImageError('UNSUPPORTED_MIME', undefined, field);
+    }
+    if (buffer.length > MAX_IMAGE_BYTES) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', undefined, field);
+    }
+    const mime = sniffMime(buffer);
+    if (!mime) {
+        throw new ProcessImageError(untyped ? 'UNSUPPORTED_MIME' : 'INVALID_IMAGE', undefined, field);
+    }
+    if (!untyped && mime !== declared) {
+        throw new ProcessImageError('INVALID_IMAGE', 'Isi gambar tidak sesuai dengan tipe MIME-nya.', field);
+    }
+    return { mime, buffer };
+};
+
+export const validateSettings = (raw: unknown, field = 'settings'): ProcessImageSettings => {
+    if (!isObject(raw)) {
+        throw new ProcessImageError('INVALID_SETTINGS', 'settings harus berupa objek.', field);
+    }
+    const numeric = {} as Record<NumericSetting, number>;
+    for (const [key, [min, max]] of Object.entries(SETTING_RANGES) as [NumericSetting, [number, number]][]) {
+        const value = raw[key] === undefined && OPTIONAL_SETTINGS.includes(key) ? DEFAULT_PIPELINE_SETTINGS[key] : raw[key];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+            throw new ProcessImageError('INVALID_SETTINGS', `${key} harus angka antara ${min} dan ${max}.`, `${field}.${key}`);
+        }
+        numeric[key] = value;
+    }
+    if (!GRAIN_TYPES.includes(raw.grainType as GrainType)) {
+        throw new ProcessImageError('INVALID_SETTINGS', `grainType harus salah satu dari ${GRAIN_TYPES.join(', ')}.`, `${field}.grainType`);
+    }
+    const grainSeed = raw.grainSeed;
+    if (typeof grainSeed !== 'number' || !Number.isInteger(grainSeed) || grainSeed < 0 || grainSeed > 0xffffffff) {
+        throw new ProcessImageError('INVALID_SETTINGS', 'grainSeed harus bilangan bulat 32-bit.', `${field}.grainSeed`);
+    }
+    let interpolation = DEFAULT_LUT_INTERPOLATION;
+    if (raw.interpolation !== undefined) {
+        if (!LUT_INTERPOLATIONS.includes(raw.interpolation as LutInterpolation)) {
+            throw new ProcessImageError('INVALID_SETTINGS', `interpolation harus salah satu dari ${LUT_INTERPOLATIONS.join(', ')}.`, `${field}.interpolation`);
+        }
+        interpolation = raw.interpolation as LutInterpolation;
+    }
+    let curves = DEFAULT_PIPELINE_SETTINGS.curves;
+    if (raw.curves !== undefined) {
+        try {
+            curves = parseToneCurves(raw.curves);
+        } catch (error) {
+            if (error instanceof ToneCurveError) {
+                throw new ProcessImageError('INVALID_SETTINGS', error.message, error.path ? `${field}.curves.${error.path}` : `${field}.curves`);
+            }
+            throw error;
+        }
+    }
+    return { ...numeric, grainType: raw.grainType as GrainType, grainSeed, interpolation, curves };
+};
+
+// Semua field opsional; yang tidak dikirim memakai DEFAULT_EXPORT_OPTIONS.
+export const validateExportOptions = (raw: unknown): ExportOptions => {
+    if (raw === undefined) return DEFAULT_EXPORT_OPTIONS;
+    if (!isObject(raw)) {
+        throw new ProcessImageError('INVALID_EXPORT_OPTIONS', 'exportOptions harus berupa objek.', 'exportOptions');
+    }
+    const options = { ...DEFAULT_EXPORT_OPTIONS };
+    if (raw.format !== undefined) {
+        if (!EXPORT_FORMATS.some(format => format.id === raw.format)) {
+            throw new ProcessImageError('INVALID_EXPORT_OPTIONS', `format harus salah satu dari ${EXPORT_FORMATS.map(format => format.id).join(', ')}.`, 'exportOptions.format');
+        }
+        options.format = raw.format as ExportFormat;
+    }
+    if (raw.quality !== undefined) {
+        const [min, max] = QUALITY_RANGE;
+        if (typeof raw.quality !== 'number' || !Number.isInteger(raw.quality) || raw.quality < min || raw.quality > max) {
+            throw new ProcessImageError('INVALID_EXPORT_OPTIONS', `quality harus bilangan bulat antara ${min} dan ${max}.`, 'exportOptions.quality');
+        }
+        options.quality = raw.quality;
+    }
+    if (raw.longEdge !== undefined && raw.longEdge !== null) {
+        const [min, max] = LONG_EDGE_RANGE;
+        if (typeof raw.longEdge !== 'number' || !Number.isInteger(raw.longEdge) || raw.longEdge < min || raw.longEdge > max) {
+            throw new ProcessImageError('INVALID_EXPORT_OPTIONS', `longEdge harus null atau bilangan bulat antara ${min} dan ${max}.`, 'exportOptions.longEdge');
+        }
+        options.longEdge = raw.longEdge;
+    }
+    if (raw.filenameTemplate !== undefined) {
+        if (typeof raw.filenameTemplate !== 'string' || raw.filenameTemplate.length > MAX_FILENAME_TEMPLATE_LENGTH) {
+            throw new ProcessImageError('INVALID_EXPORT_OPTIONS', `filenameTemplate harus teks maksimal ${MAX_FILENAME_TEMPLATE_LENGTH} karakter.`, 'exportOptions.filenameTemplate');
+        }
+        options.filenameTemplate = raw.filenameTemplate;
+    }
+    return options;
+};
+
+const validateItemFields = (body: Record<string, unknown>, prefix: string) => {
+    if (typeof body.presetId !== 'string' || !body.presetId) {
+        throw new ProcessImageError('INVALID_BODY', 'presetId wajib diisi.', `${prefix}presetId`);
+    }
+    if (body.blendPresetId !== undefined && body.blendPresetId !== null && (typeof body.blendPresetId !== 'string' || !body.blendPresetId)) {
+        throw new ProcessImageError('INVALID_BODY', 'blendPresetId harus berupa id preset.', `${prefix}blendPresetId`);
+    }
+    if (body.stripGps !== undefined && typeof body.stripGps !== 'boolean') {
+        throw new ProcessImageError('INVALID_BODY', 'stripGps harus berupa boolean.', `${prefix}stripGps`);
+    }
+    if (body.sourceName !== undefined && (typeof body.sourceName !== 'string' || body.sourceName.length > 255)) {
+        throw new ProcessImageError('INVALID_BODY', 'sourceName harus teks maksimal 255 karakter.', `${prefix}sourceName`);
+    }
+    const settings = validateSettings(body.settings, `${prefix}settings`);
+    const blendPresetId = (body.blendPresetId as string | null | undefined) ?? null;
+    if (settings.blend > 0 && !blendPresetId) {
+        throw new ProcessImageError('INVALID_BODY', 'blendPresetId wajib diisi bila blend lebih dari 0.', `${prefix}blendPresetId`);
+    }
+    return {
+        presetId: body.presetId,
+        blendPresetId,
+        settings,
+        stripGps: (body.stripGps as boolean | undefined) ?? false,
+        sourceName: (body.sourceName as string | undefined) || 'foto',
+    };
+};
+
+const validateJobId = (jobId: unknown): string | null => {
+    if (jobId === undefined) return null;
+    if (typeof jobId !== 'string' || !EXPORT_JOB_ID_PATTERN.test(jobId)) {
+        throw new ProcessImageError('INVALID_BODY', 'jobId harus 8-64 karakter huruf, angka, - atau _.', 'jobId');
+    }
+    return jobId;
+};
+
+// image diisi bila gambar dikirim biner; tanpa itu dibaca dari body.imageSrc (data URL).
+export const validateProcessImageRequest = (body: unknown, image?: { mime: string; buffer: Buffer }): ProcessImageRequest => {
+    if (!isObject(body)) {
+        throw new ProcessImageError('INVALID_BODY');
+    }
+    const fields = validateItemFields(body, '');
+    const jobId = validateJobId(body.jobId);
+    return {
+        image: image ?? parseImageDataUrl(body.imageSrc),
+        ...fields,
+        exportOptions: validateExportOptions(body.exportOptions),
+        jobId,
+        customLut: null,
+    };
+};
+
+export const validateExportLutRequest = (body: unknown): ExportLutRequest => {
+    if (!isObject(body)) {
+        throw new ProcessImageError('INVALID_BODY');
+    }
+    const { presetId, blendPresetId, settings } = validateItemFields(body, '');
+    let size = DEFAULT_LUT_EXPORT_SIZE;
+    if (body.size !== undefined) {
+        if (!LUT_EXPORT_SIZES.includes(body.size as LutExportSize)) {
+            throw new ProcessImageError('INVALID_BODY', `size harus salah satu dari ${LUT_EXPORT_SIZES.join(', ')}.`, 'size');
+        }
+        size = body.size as LutExportSize;
+    }
+    return { presetId, blendPresetId, settings, size, customLut: null };
+};
+
+export const MAX_BATCH_BYTES = 400 * 1024 * 1024;
+
+// images[i] adalah file untuk body.items[i].
+export const validateProcessBatchRequest = (body: unknown, images: { mime: string; buffer: Buffer }[]): ProcessBatchRequest => {
+    if (!isObject(body)) {
+        throw new ProcessImageError('INVALID_BODY');
+    }
+    if (!Array.isArray(body.items) || body.items.length === 0 || body.items.length > MAX_BATCH_ITEMS) {
+        throw new ProcessImageError('INVALID_BODY', `items harus berisi 1-${MAX_BATCH_ITEMS} foto.`, 'items');
+    }
+    if (body.items.length !== images.length) {
+        throw new ProcessImageError('INVALID_BODY', 'Jumlah items tidak sama dengan jumlah file.', 'items');
+    }
+    const items = body.items.map((item: unknown, index: number): ExportItemRequest => {
+        if (!isObject(item)) {
+            throw new ProcessImageError('INVALID_BODY', 'Setiap item harus berupa objek.', `items[${index}]`);
+        }
+        return { image: images[index], ...validateItemFields(item, `items[${index}].`) };
+    });
+    return {
+        items,
+        exportOptions: validateExportOptions(body.exportOptions),
+        jobId: validateJobId(body.jobId),
+        customLut: null,
+    };
+};
+
+// Sisa ruang body multipart di luar file gambar (boundary, header part,
+// options, LUT sendiri).
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024 + CUSTOM_LUT_MAX_BYTES;
+
+const parseOptionsJson = (raw: unknown): unknown => {
+    if (typeof raw !== 'string' || !raw) {
+        throw new ProcessImageError('INVALID_BODY', 'options wajib diisi.', 'options');
+    }
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new ProcessImageError('INVALID_BODY', 'options harus berupa JSON.', 'options');
+    }
+};
+
+// Field multipart "lut" (opsional): file .cube sendiri, divalidasi dengan
+// batas yang sama seperti di browser.
+const readCustomLut = async (file: FormDataEntryValue | null): Promise<CustomLutUpload | null> => {
+    if (file === null) return null;
+    if (!(file instanceof Blob)) {
+        throw new ProcessImageError('INVALID_LUT', 'Field lut wajib berisi file .cube.', 'lut');
+    }
+    if (file.size > CUSTOM_LUT_MAX_BYTES) {
+        throw new ProcessImageError('LUT_TOO_LARGE', undefined, 'lut');
+    }
+    try {
+        const name = file instanceof File && file.name ? file.name : 'LUT';
+        return { name, lut: parseCustomLut(await file.text()) };
+    } catch (error) {
+        if (error instanceof LutParseError) {
+            throw new ProcessImageError('INVALID_LUT', `File LUT tidak valid. ${error.message}`, 'lut');
+        }
+        throw error;
+    }
+};
+
+// Tiga bentuk body yang diterima:
+// - multipart/form-data: file di field "image", opsi (JSON) di field "options",
+//   LUT sendiri (opsional) di field "lut";
+// - body biner mentah dengan Content-Type gambar, opsi di query ?options=;
+// - application/json dengan imageSrc berupa data URL (format lama).
+export const readProcessImageRequest = async (request: Request): Promise<ProcessImageRequest> => {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (/^application\/json/i.test(contentType)) {
+        const body = await request.json().catch(() => {
+            throw new ProcessImageError('INVALID_BODY', 'Body harus berupa JSON.');
+        });
+        return validateProcessImageRequest(body);
+    }
+
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_IMAGE_BYTES + MULTIPART_OVERHEAD_BYTES) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', undefined, 'image');
+    }
+
+    if (/^multipart\/form-data/i.test(contentType)) {
+        const form = await request.formData().catch(() => {
+            throw new ProcessImageError('INVALID_BODY', 'Body multipart tidak valid.');
+        });
+        const options = parseOptionsJson(form.get('options'));
+        const file = form.get('image');
+        if (!(file instanceof Blob)) {
+            throw new ProcessImageError('INVALID_IMAGE', 'Field image wajib berisi file.', 'image');
+        }
+        const customLut = await readCustomLut(form.get('lut'));
+        const image = parseImageBuffer(Buffer.from(await file.arrayBuffer()), file.type, 'image');
+        return { ...validateProcessImageRequest(options, image), customLut };
+    }
+
+    const options = parseOptionsJson(new URL(request.url).searchParams.get('options'));
+    const buffer = Buffer.from(await request.arrayBuffer());
+    return validateProcessImageRequest(options, parseImageBuffer(buffer, contentType, 'image'));
+};
+
+// Pratinjau RAW: body biner mentah (Content-Type image/x-raw), atau
+// multipart dengan file di field "image". Selain RAW ditolak.
+export const readRawPreviewRequest = async (request: Request): Promise<{ mime: string; buffer: Buffer }> => {
+    const contentType = request.headers.get('content-type') ?? '';
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_IMAGE_BYTES + MULTIPART_OVERHEAD_BYTES) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', undefined, 'image');
+    }
+
+    let image: { mime: string; buffer: Buffer };
+    if (/^multipart\/form-data/i.test(contentType)) {
+        const form = await request.formData().catch(() => {
+            throw new ProcessImageError('INVALID_BODY', 'Body multipart tidak valid.');
+        });
+        const file = form.get('image');
+        if (!(file instanceof Blob)) {
+            throw new ProcessImageError('INVALID_IMAGE', 'Field image wajib berisi file.', 'image');
+        }
+        image = parseImageBuffer(Buffer.from(await file.arrayBuffer()), file.type, 'image');
+    } else {
+        image = parseImageBuffer(Buffer.from(await request.arrayBuffer()), contentType, 'image');
+    }
+    if (image.mime !== RAW_IMAGE_MIME) {
+        throw new ProcessImageError('UNSUPPORTED_MIME', 'Endpoint ini hanya menerima file RAW.', 'image');
+    }
+    return image;
+};
+
+// Batch hanya menerima multipart: file di field "images" (berulang, urut
+// sesuai items), opsi (JSON) di field "options" dan LUT sendiri (opsional)
+// di field "lut".
+export const readProcessBatchRequest = async (request: Request): Promise<ProcessBatchRequest> => {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!/^multipart\/form-data/i.test(contentType)) {
+        throw new ProcessImageError('INVALID_BODY', 'Batch harus dikirim sebagai multipart/form-data.');
+    }
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_BATCH_BYTES + MULTIPART_OVERHEAD_BYTES) {
+        throw new ProcessImageError('IMAGE_TOO_LARGE', 'Total ukuran foto dalam batch terlalu besar.', 'images');
+    }
+    const form = await request.formData().catch(() => {
+        throw new ProcessImageError('INVALID_BODY', 'Body multipart tidak valid.');
+    });
+    const options = parseOptionsJson(form.get('options'));
+    const files = form.getAll('images');
+    if (files.length > MAX_BATCH_ITEMS) {
+        throw new ProcessImageError('INVALID_BODY', `Maksimal ${MAX_BATCH_ITEMS} foto per batch.`, 'images');
+    }
+    const images = [];
+    let totalBytes = 0;
+    for (const [index, file] of files.entries()) {
+        if (!(file instanceof Blob)) {
+            throw new ProcessImageError('INVALID_IMAGE', 'Field images wajib berisi file.', `images[${index}]`);
+        }
+        totalBytes += file.size;
+        if (totalBytes > MAX_BATCH_BYTES) {
+            throw new ProcessImageError('IMAGE_TOO_LARGE', 'Total ukuran foto dalam batch terlalu besar.', 'images');
+        }
+        images.push(parseImageBuffer(Buffer.from(await file.arrayBuffer()), file.type, `images[${index}]`));
+    }
+    const customLut = await readCustomLut(form.get('lut'));
+    return { ...validateProcessBatchRequest(options, images), customLut };
+};
+
+// JSON biasa, atau multipart (opsi di field "options") bila LUT sendiri
+// ikut dikirim di field "lut".
+export const readExportLutRequest = async (request: Request): Promise<ExportLutRequest> => {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (/^multipart\/form-data/i.test(contentType)) {
+        if (Number(request.headers.get('content-length')) > MULTIPART_OVERHEAD_BYTES) {
+            throw new ProcessImageError('LUT_TOO_LARGE', undefined, 'lut');
+        }
+        const form = await request.formData().catch(() => {
+            throw new ProcessImageError('INVALID_BODY', 'Body multipart tidak valid.');
+        });
+        const options = parseOptionsJson(form.get('options'));
+        const customLut = await readCustomLut(form.get('lut'));
+        return { ...validateExportLutRequest(options), customLut };
+    }
+    const body = await request.json().catch(() => {
+        throw new ProcessImageError('INVALID_BODY', 'Body harus berupa JSON.');
+    });
+    return validateExportLutRequest(body);
+};
@@ -0,0 +1,77 @@
+// Khusus server: demosaic penuh file RAW lewat dcraw (port Emscripten) untuk
+// ekspor HD dan untuk pratinjau file yang tidak punya JPEG tertanam.
+import dcraw from 'dcraw';
+
+export interface DecodedRaw {
+    width: number;
+    height: number;
+    // RGBA 8-bit sRGB, siap dipakai sebagai ImageData.
+    data: Uint8ClampedArray;
+}
+
+export class RawDecodeError extends Error {
+    constructor(message = 'File RAW tidak dapat didekode.') {
+        super(message);
+        this.name = 'RawDecodeError';
+    }
+}
+
+// Keluaran dcraw: PPM biner (P6) 8-bit.
+const parsePpm = (bytes: Uint8Array): DecodedRaw => {
+    const header: string[] = [];
+    let pos = 0;
+    while (header.length < 4 && pos < bytes.length) {
+        while (pos < bytes.length && /\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+        let token = '';
+        while (pos < bytes.length && !/\s/.test(String.fromCharCode(bytes[pos]))) token += String.fromCharCode(bytes[pos++]);
+        header.push(token);
+    }
+    pos++;
+    const [magic, width, height, maxValue] = [header[0], Number(header[1]), Number(header[2]), Number(header[3])];
+    if (magic !== 'P6' || maxValue !== 255 || !(width > 0) || !(height > 0) || bytes.length - pos < width * height * 3) {
+        throw new RawDecodeError('Keluaran decoder RAW tidak valid.');
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = pos, o = 0; o < data.length; i += 3, o += 4) {
+        data[o] = bytes[i];
+        data[o + 1] = bytes[i + 1];
+        data[o + 2] = bytes[i + 2];
+        data[o + 3] = 255;
+    }
+    return { width, height, data };
+};
+
+// Ukuran hasil demosaic (sudah diputar) dari mode identify dcraw, tanpa
+// mendekode piksel; null bila tidak terbaca.
+export const readRawOutputSize = (buffer: Uint8Array): { width: number; height: number } | null => {
+    let output: Uint8Array | string;
+    try {
+        output = dcraw(buffer, { verbose: true, identify: true });
+    } catch {
+        return null;
+    }
+    const match = typeof output === 'string' ? output.match(/Output size:\s*(\d+)\s*x\s*(\d+)/) : null;
+    return match ? { width: Number(match[1]), height: Number(match[2]) } : null;
+};
+
+// halfSize melewati interpolasi (2x lebih cepat, setengah resolusi) dan
+// cukup untuk pratinjau. White balance memakai nilai dari kamera.
+export const decodeRaw = (buffer: Uint8Array, options: { halfSize?: boolean } = {}): DecodedRaw => {
+    let output: Uint8Array | string;
+    try {
+        // Wrapper dcraw menambahkan flag untuk setiap opsi yang didefinisikan,
+        // termasuk yang bernilai false, jadi opsi hanya diisi bila aktif.
+        output = dcraw(buffer, {
+            useCameraWhiteBalance: true,
+            ...(options.halfSize ? { setHalfSizeMode: true } : {}),
+        });
+    } catch (error) {
+        console.error("[SERVER] dcraw gagal:", error);
+        throw new RawDecodeError();
+    }
+    if (typeof output === 'string') {
+        throw new RawDecodeError();
+    }
+    return parsePpm(output);
+};
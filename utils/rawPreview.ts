@@ -0,0 +1,226 @@
+// Ekstraksi JPEG pratinjau yang tertanam di file RAW tanpa demosaic, agar
+// pratinjau di browser muncul cepat. Demosaic penuh untuk ekspor HD ada di
+// server (utils/rawDecoder.ts).
+
+// MIME yang dipakai klien saat mengirim file RAW asli ke server.
+export const RAW_IMAGE_MIME = 'image/x-raw';
+
+export interface RawEmbeddedPreview {
+    jpeg: Uint8Array;
+    width: number;
+    height: number;
+    // Orientasi EXIF (1-8) dari file RAW. Bernilai 1 bila JPEG-nya sudah
+    // membawa EXIF sendiri (browser yang memutarnya).
+    orientation: number;
+}
+
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_ORIENTATION = 274;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_SUB_IFDS = 330;
+const TAG_JPEG_OFFSET = 513;
+const TAG_JPEG_LENGTH = 514;
+const TAG_EXIF_IFD = 34665;
+const TAG_DNG_VERSION = 50706;
+// Panasonic RW2 menyimpan JPEG utuh di tag ini (JpgFromRaw).
+const TAG_RW2_JPEG = 46;
+
+const MAX_IFDS = 64;
+
+// PhotometricInterpretation untuk data sensor: CFA (NEF, ARW, PEF, ...) dan
+// LinearRaw (DNG hasil demosaic).
+const RAW_PHOTOMETRICS = [32803, 34892];
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+interface JpegInfo {
+    width: number;
+    height: number;
+    hasExif: boolean;
+}
+
+// Hanya JPEG baseline/progressive yang bisa dibaca browser; data RAW di
+// CR2/DNG juga dibungkus JPEG tetapi lossless (SOF3) sehingga harus ditolak.
+const inspectJpeg = (bytes: Uint8Array): JpegInfo | null => {
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    let hasExif = false;
+    let pos = 2;
+    while (pos + 4 <= bytes.length) {
+        if (bytes[pos] !== 0xff) return null;
+        const marker = bytes[pos + 1];
+        if (marker === 0xff) {
+            pos++;
+            continue;
+        }
+        const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+        if (marker === 0xe1 && ascii(bytes, pos + 4, 4) === 'Exif') hasExif = true;
+        if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+            if (pos + 9 > bytes.length) return null;
+            const height = (bytes[pos + 5] << 8) | bytes[pos + 6];
+            const width = (bytes[pos + 7] << 8) | bytes[pos + 8];
+            return width > 0 && height > 0 ? { width, height, hasExif } : null;
+        }
+        if ((marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) || marker === 0xda) {
+            return null;
+        }
+        pos += 2 + length;
+    }
+    return null;
+};
+
+class TiffReader {
+    private view: DataView;
+    private little: boolean;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        this.little = bytes[0] === 0x49;
+    }
+
+    u16(offset: number): number {
+        return this.view.getUint16(offset, this.little);
+    }
+
+    u32(offset: number): number {
+        return this.view.getUint32(offset, this.little);
+    }
+
+    inRange(offset: number, length: number): boolean {
+        return offset >= 0 && length >= 0 && offset + length <= this.bytes.length;
+    }
+
+    // Nilai SHORT/LONG/IFD sebuah entri; nilai ≤ 4 byte disimpan langsung di entri.
+    values(entry: number): number[] {
+        const type = this.u16(entry + 2);
+        const count = this.u32(entry + 4);
+        const size = type === 3 ? 2 : type === 4 || type === 13 ? 4 : 0;
+        if (!size || count === 0 || count > 1024) return [];
+        const start = size * count <= 4 ? entry + 8 : this.u32(entry + 8);
+        if (!this.inRange(start, size * count)) return [];
+        const result: number[] = [];
+        for (let i = 0; i < count; i++) result.push(size === 2 ? this.u16(start + i * 2) : this.u32(start + i * 4));
+        return result;
+    }
+}
+
+// Ada IFD (termasuk SubIFD) bertag DNGVersion atau berisi data sensor.
+const hasSensorIfd = (bytes: Uint8Array): boolean => {
+    const reader = new TiffReader(bytes);
+    const visited = new Set<number>();
+    const queue = [reader.u32(4)];
+    while (queue.length > 0 && visited.size < MAX_IFDS) {
+        const ifd = queue.shift()!;
+        if (visited.has(ifd) || !reader.inRange(ifd, 2)) continue;
+        visited.add(ifd);
+        const count = reader.u16(ifd);
+        if (!reader.inRange(ifd + 2, count * 12 + 4)) continue;
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            const tag = reader.u16(entry);
+            if (tag === TAG_DNG_VERSION) return true;
+            if (tag === TAG_PHOTOMETRIC && RAW_PHOTOMETRICS.includes(reader.values(entry)[0])) return true;
+            if (tag === TAG_SUB_IFDS) queue.push(...reader.values(entry));
+        }
+        const next = reader.u32(ifd + 2 + count * 12);
+        if (next) queue.push(next);
+    }
+    return false;
+};
+
+// Semua RAW yang didukung berbasis TIFF (termasuk varian ORF/RW2), kecuali
+// Fujifilm RAF yang punya header sendiri. TIFF biasa memakai header yang
+// sama, jadi yang membedakan adalah penanda CR2 atau IFD berisi data sensor.
+export const hasRawSignature = (bytes: Uint8Array): boolean => {
+    if (bytes.length >= 16 && ascii(bytes, 0, 15) === 'FUJIFILMCCD-RAW') return true;
+    if (bytes.length < 8) return false;
+    const head = ascii(bytes, 0, 4);
+    if (head === 'IIRO' || head === 'IIRS' || head === 'MMOR' || head === 'IIU\0') return true;
+    if (head !== 'II*\0' && head !== 'MM\0*') return false;
+    if (bytes.length >= 10 && ascii(bytes, 8, 2) === 'CR') return true;
+    return hasSensorIfd(bytes);
+};
+
+const collectTiffPreviews = (bytes: Uint8Array): { candidates: Uint8Array[]; orientation: number } => {
+    const reader = new TiffReader(bytes);
+    const candidates: Uint8Array[] = [];
+    const visited = new Set<number>();
+    const queue = [reader.u32(4)];
+    let orientation = 1;
+    let isFirstIfd = true;
+
+    const addCandidate = (offset: number | undefined, length: number | undefined) => {
+        if (offset === undefined || length === undefined || !reader.inRange(offset, length)) return;
+        candidates.push(bytes.subarray(offset, offset + length));
+    };
+
+    while (queue.length > 0 && visited.size < MAX_IFDS) {
+        const ifd = queue.shift()!;
+        if (visited.has(ifd) || !reader.inRange(ifd, 2)) continue;
+        visited.add(ifd);
+        const count = reader.u16(ifd);
+        if (!reader.inRange(ifd + 2, count * 12 + 4)) continue;
+
+        const tags = new Map<number, number>();
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            tags.set(reader.u16(entry), entry);
+        }
+        const first = (tag: number) => {
+            const entry = tags.get(tag);
+            return entry === undefined ? undefined : reader.values(entry)[0];
+        };
+
+        if (isFirstIfd) orientation = first(TAG_ORIENTATION) ?? 1;
+        isFirstIfd = false;
+
+        addCandidate(first(TAG_JPEG_OFFSET), first(TAG_JPEG_LENGTH));
+        const compression = first(TAG_COMPRESSION);
+        if (compression === 6 || compression === 7) {
+            const offsets = tags.has(TAG_STRIP_OFFSETS) ? reader.values(tags.get(TAG_STRIP_OFFSETS)!) : [];
+            const lengths = tags.has(TAG_STRIP_BYTE_COUNTS) ? reader.values(tags.get(TAG_STRIP_BYTE_COUNTS)!) : [];
+            if (offsets.length === 1 && lengths.length === 1) addCandidate(offsets[0], lengths[0]);
+        }
+        const rw2Entry = tags.get(TAG_RW2_JPEG);
+        if (rw2Entry !== undefined) addCandidate(reader.u32(rw2Entry + 8), reader.u32(rw2Entry + 4));
+
+        for (const tag of [TAG_SUB_IFDS, TAG_EXIF_IFD]) {
+            const entry = tags.get(tag);
+            if (entry !== undefined) queue.push(...reader.values(entry));
+        }
+        const next = reader.u32(ifd + 2 + count * 12);
+        if (next) queue.push(next);
+    }
+    return { candidates, orientation };
+};
+
+// Mengembalikan JPEG tertanam terbesar, atau null bila tidak ada (mis. ORF
+// yang menyimpan pratinjau di makernote) sehingga perlu decode di server.
+export const extractRawPreview = (bytes: Uint8Array): RawEmbeddedPreview | null => {
+    if (!hasRawSignature(bytes)) return null;
+
+    let candidates: Uint8Array[];
+    let orientation = 1;
+    if (ascii(bytes, 0, 15) === 'FUJIFILMCCD-RAW') {
+        if (bytes.length < 92) return null;
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const offset = view.getUint32(84);
+        const length = view.getUint32(88);
+        candidates = offset + length <= bytes.length ? [bytes.subarray(offset, offset + length)] : [];
+    } else {
+        ({ candidates, orientation } = collectTiffPreviews(bytes));
+    }
+
+    let best: RawEmbeddedPreview | null = null;
+    for (const jpeg of candidates) {
+        const info = inspectJpeg(jpeg);
+        if (!info) continue;
+        if (!best || info.width * info.height > best.width * best.height) {
+            best = { jpeg, width: info.width, height: info.height, orientation: info.hasExif ? 1 : orientation };
+        }
+    }
+    if (best && (best.orientation < 1 || best.orientation > 8)) best.orientation = 1;
+    return best;
+};
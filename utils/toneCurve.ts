@@ -0,0 +1,137 @@
+// Kurva tone berbasis titik (seperti Lightroom): kurva luma plus kurva per
+// kanal R/G/B. Titik dihubungkan spline kubik monoton sehingga kurva tidak
+// pernah berayun melewati titiknya, lalu dijadikan tabel 256 nilai yang
+// dipakai pipeline CPU maupun shader WebGL.
+
+// [input, output], keduanya 0-255.
+export type CurvePoint = [number, number];
+
+export type ToneCurveChannel = 'luma' | 'red' | 'green' | 'blue';
+
+export type ToneCurves = Record<ToneCurveChannel, CurvePoint[]>;
+
+export const TONE_CURVE_CHANNELS: ToneCurveChannel[] = ['luma', 'red', 'green', 'blue'];
+
+export const MAX_CURVE_POINTS = 16;
+
+export const IDENTITY_CURVE: CurvePoint[] = [[0, 0], [255, 255]];
+
+export const DEFAULT_TONE_CURVES: ToneCurves = {
+    luma: IDENTITY_CURVE,
+    red: IDENTITY_CURVE,
+    green: IDENTITY_CURVE,
+    blue: IDENTITY_CURVE,
+};
+
+export class ToneCurveError extends Error {
+    // Jalur field relatif terhadap objek curves, misalnya "red[2]".
+    path: string;
+
+    constructor(message: string, path: string) {
+        super(message);
+        this.name = 'ToneCurveError';
+        this.path = path;
+    }
+}
+
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+    points.every(([x, y]) => x === y) && points[0][0] === 0 && points[points.length - 1][0] === 255;
+
+export const hasToneCurves = (curves: ToneCurves): boolean =>
+    TONE_CURVE_CHANNELS.some(channel => !isIdentityCurve(curves[channel]));
+
+const isInByteRange = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 255;
+
+// Setiap kanal 2-16 titik bilangan bulat 0-255 dengan input naik tegas.
+// Kanal yang tidak dikirim dianggap lurus (identitas).
+export const parseToneCurves = (raw: unknown): ToneCurves => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new ToneCurveError('curves harus berupa objek.', '');
+    }
+    const source = raw as Record<string, unknown>;
+    const curves = { ...DEFAULT_TONE_CURVES };
+    for (const channel of TONE_CURVE_CHANNELS) {
+        const points = source[channel];
+        if (points === undefined) continue;
+        if (!Array.isArray(points) || points.length < 2 || points.length > MAX_CURVE_POINTS) {
+            throw new ToneCurveError(`Kurva ${channel} harus berisi 2-${MAX_CURVE_POINTS} titik.`, channel);
+        }
+        curves[channel] = points.map((point, index): CurvePoint => {
+            if (!Array.isArray(point) || point.length !== 2 || !isInByteRange(point[0]) || !isInByteRange(point[1])) {
+                throw new ToneCurveError('Titik kurva harus [input, output] bilangan bulat 0-255.', `${channel}[${index}]`);
+            }
+            if (index > 0 && point[0] <= points[index - 1][0]) {
+                throw new ToneCurveError('Input titik kurva harus naik.', `${channel}[${index}]`);
+            }
+            return [point[0], point[1]];
+        });
+    }
+    return curves;
+};
+
+// Spline Fritsch-Carlson dievaluasi di input 0..255. Di luar titik pertama
+// dan terakhir kurva mendatar.
+export const buildCurveTable = (points: CurvePoint[]): Float32Array => {
+    const n = points.length;
+    const xs = points.map(point => point[0]);
+    const ys = points.map(point => point[1]);
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) slopes.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+
+    const tangents = new Array<number>(n);
+    tangents[0] = slopes[0];
+    tangents[n - 1] = slopes[n - 2];
+    for (let i = 1; i < n - 1; i++) {
+        tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    }
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const length = a * a + b * b;
+        if (length > 9) {
+            const scale = 3 / Math.sqrt(length);
+            tangents[i] = scale * a * slopes[i];
+            tangents[i + 1] = scale * b * slopes[i];
+        }
+    }
+
+    const table = new Float32Array(256);
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= xs[0]) {
+            table[x] = ys[0];
+            continue;
+        }
+        if (x >= xs[n - 1]) {
+            table[x] = ys[n - 1];
+            continue;
+        }
+        while (x > xs[segment + 1]) segment++;
+        const h = xs[segment + 1] - xs[segment];
+        const t = (x - xs[segment]) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        const value =
+            (2 * t3 - 3 * t2 + 1) * ys[segment] +
+            (t3 - 2 * t2 + t) * h * tangents[segment] +
+            (-2 * t3 + 3 * t2) * ys[segment + 1] +
+            (t3 - t2) * h * tangents[segment + 1];
+        table[x] = Math.max(0, Math.min(255, value));
+    }
+    return table;
+};
+
+// Nilai kontinu 0-255 diinterpolasi linear di antara entri tabel; shader
+// memakai rumus yang sama.
+export const sampleCurveTable = (table: Float32Array, value: number): number => {
+    const v = Math.max(0, Math.min(255, value));
+    const i0 = Math.floor(v);
+    const i1 = Math.min(i0 + 1, 255);
+    const f = v - i0;
+    return table[i0] * (1 - f) + table[i1] * f;
+};
@@ -0,0 +1,77 @@
+// Khusus server: watermark di atas hasil ekspor preset berbayar tanpa
+// lisensi. Ukuran teks/logo relatif terhadap sisi pendek foto, jadi
+// tampilannya sama untuk hasil kecil maupun besar.
+import { CanvasRenderingContext2D, Image, loadImage } from 'canvas';
+import { WatermarkConfig } from './presetManifest';
+import { resolvePresetFile } from './presetRegistry';
+
+export interface Watermark {
+    config: WatermarkConfig;
+    logo: Image | null;
+}
+
+// Logo dibaca sekali per file; manifest tetap dibaca ulang setiap ekspor.
+const logoCache = new Map<string, Promise<Image>>();
+
+export const loadWatermark = async (config: WatermarkConfig): Promise<Watermark> => {
+    if (!config.logo) return { config, logo: null };
+    let pending = logoCache.get(config.logo);
+    if (!pending) {
+        pending = loadImage(resolvePresetFile(config.logo));
+        pending.catch(() => logoCache.delete(config.logo as string));
+        logoCache.set(config.logo, pending);
+    }
+    return { config, logo: await pending };
+};
+
+// Posisi pojok kiri atas blok watermark selebar blockWidth × blockHeight.
+const anchor = (config: WatermarkConfig, width: number, height: number, blockWidth: number, blockHeight: number, margin: number) => {
+    const left = config.position.endsWith('left');
+    const top = config.position.startsWith('top');
+    if (config.position === 'center') return { x: (width - blockWidth) / 2, y: (height - blockHeight) / 2 };
+    return {
+        x: left ? margin : width - margin - blockWidth,
+        y: top ? margin : height - margin - blockHeight,
+    };
+};
+
+export const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, { config, logo }: Watermark) => {
+    const unit = Math.min(width, height);
+    const fontSize = Math.max(12, Math.round(unit * 0.045));
+    const margin = Math.round(unit * 0.03);
+    const logoHeight = logo ? Math.round(unit * 0.08) : 0;
+    const logoWidth = logo ? Math.round(logo.width * (logoHeight / logo.height)) : 0;
+
+    ctx.save();
+    ctx.globalAlpha = config.opacity;
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = Math.max(1, unit * 0.004);
+
+    const textWidth = config.text ? ctx.measureText(config.text).width : 0;
+    const gap = logo && config.text ? Math.round(fontSize * 0.5) : 0;
+    const blockWidth = logoWidth + gap + textWidth;
+    const blockHeight = Math.max(logoHeight, config.text ? fontSize : 0);
+    const stamp = (x: number, y: number) => {
+        if (logo) ctx.drawImage(logo, x, y + (blockHeight - logoHeight) / 2, logoWidth, logoHeight);
+        if (config.text) ctx.fillText(config.text, x + logoWidth + gap, y + blockHeight / 2);
+    };
+
+    if (config.position === 'tile') {
+        // Diagonal berulang menutupi seluruh foto; sulit dipotong keluar.
+        const stepX = blockWidth * 1.8;
+        const stepY = blockHeight * 4;
+        const diagonal = Math.hypot(width, height);
+        ctx.translate(width / 2, height / 2);
+        ctx.rotate(-Math.PI / 6);
+        for (let y = -diagonal / 2, row = 0; y < diagonal / 2; y += stepY, row++) {
+            for (let x = -diagonal / 2 - (row % 2) * stepX / 2; x < diagonal / 2; x += stepX) stamp(x, y);
+        }
+    } else {
+        const { x, y } = anchor(config, width, height, blockWidth, blockHeight, margin);
+        stamp(x, y);
+    }
+    ctx.restore();
+};
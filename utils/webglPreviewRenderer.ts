@@ -0,0 +1,508 @@
+// Renderer pratinjau GPU (WebGL2): LUT diunggah sebagai tekstur 3D dan
+// seluruh pipeline dijalankan di fragment shader. Rumusnya meniru
+// utils/pipeline.ts, utils/colorScience.ts dan utils/grain.ts baris per baris;
+// ubah keduanya bersamaan.
+import { exposureGain, whiteBalanceGains } from './colorScience';
+import { GRAIN_REFERENCE_LONG_EDGE, grainCellSize } from './grain';
+import type { Lut } from './lut';
+import type { PipelineSettings } from './pipeline';
+import { TONE_CURVE_CHANNELS, ToneCurves, buildCurveTable, isIdentityCurve } from './toneCurve';
+import type { PreviewBackend, PreviewRenderCallbacks, PreviewSourceImage } from './previewRenderer';
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+void main() {
+    gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+precision highp sampler3D;
+
+uniform sampler2D u_source;
+uniform vec2 u_size;
+
+uniform bool u_linear;
+uniform float u_exposureGain;
+uniform vec3 u_wbGains;
+uniform float u_highlights;
+uniform float u_shadows;
+uniform float u_whites;
+uniform float u_blacks;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_vibrance;
+
+// Baris 0 = kurva luma, 1-3 = kurva R/G/B (masing-masing 256 nilai).
+uniform sampler2D u_curves;
+uniform bool u_curveLuma;
+uniform bvec3 u_curveChannels;
+
+uniform int u_interpolation;
+uniform bool u_hasShaper;
+uniform sampler2D u_shaper;
+uniform int u_shaperSize;
+uniform int u_shaperWidth;
+uniform vec3 u_shaperMin;
+uniform vec3 u_shaperMax;
+uniform bool u_hasCube;
+uniform sampler3D u_cube;
+uniform int u_cubeSize;
+uniform vec3 u_cubeMin;
+uniform vec3 u_cubeMax;
+uniform float u_intensity;
+
+uniform float u_grain;
+uniform float u_grainScale;
+uniform uint u_grainSeed;
+uniform bool u_grainColor;
+
+out vec4 outColor;
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+float srgbToLinear(float v) { return v <= 0.04045 ? v / 12.92 : pow((v + 0.055) / 1.055, 2.4); }
+float linearToSrgb(float v) { return v <= 0.0031308 ? v * 12.92 : 1.055 * pow(v, 1.0 / 2.4) - 0.055; }
+
+float highlightsCurve(float lp, float amount) {
+    float weight = smoothstep(0.25, 1.0, min(lp, 1.0));
+    if (amount < 0.0) return lp + amount * 0.25 * weight;
+    return lp + amount * 0.6 * weight * max(0.0, 1.0 - lp);
+}
+
+float shadowsCurve(float lp, float amount) {
+    float lifted = 4.0 * lp * (1.0 - smoothstep(0.0, 0.6, lp));
+    return lp + amount * (amount > 0.0 ? 0.3 : 0.2) * lifted;
+}
+
+float whitesCurve(float lp, float amount) {
+    return lp + amount * 0.25 * smoothstep(0.5, 1.0, min(lp, 1.0));
+}
+
+float blacksCurve(float lp, float amount) {
+    return lp + amount * 0.15 * (1.0 - smoothstep(0.0, 0.5, lp));
+}
+
+float contrastCurve(float lp, float amount) {
+    if (lp >= 1.0) return lp;
+    return lp + amount * 0.5 * (smoothstep(0.0, 1.0, lp) - lp);
+}
+
+// kind: 0 highlights, 1 shadows, 2 whites, 3 blacks, 4 contrast.
+float toneCurve(int kind, float lp, float amount) {
+    if (kind == 0) return highlightsCurve(lp, amount);
+    if (kind == 1) return shadowsCurve(lp, amount);
+    if (kind == 2) return whitesCurve(lp, amount);
+    if (kind == 3) return blacksCurve(lp, amount);
+    return contrastCurve(lp, amount);
+}
+
+vec3 applyToneCurve(vec3 rgb, float amount, int kind) {
+    float y = dot(rgb, LUMA);
+    if (y <= 0.0) return rgb;
+    float lp = linearToSrgb(y);
+    float target = srgbToLinear(max(0.0, toneCurve(kind, lp, amount)));
+    return rgb * (target / y);
+}
+
+vec3 scaleChroma(vec3 rgb, float k) {
+    float y = dot(rgb, LUMA);
+    return y + (rgb - y) * k;
+}
+
+float sampleCurve(int row, float value) {
+    float p = clamp(value, 0.0, 255.0);
+    int i0 = int(floor(p));
+    int i1 = min(i0 + 1, 255);
+    float f = p - float(i0);
+    return texelFetch(u_curves, ivec2(i0, row), 0).r * (1.0 - f) + texelFetch(u_curves, ivec2(i1, row), 0).r * f;
+}
+
+float latticePosition(float value, float minV, float maxV, int size) {
+    return clamp((value - minV) / (maxV - minV), 0.0, 1.0) * float(size - 1);
+}
+
+vec3 shaperAt(int i) {
+    return texelFetch(u_shaper, ivec2(i % u_shaperWidth, i / u_shaperWidth), 0).rgb;
+}
+
+vec3 applyShaper(vec3 rgb) {
+    vec3 result;
+    for (int c = 0; c < 3; c++) {
+        float pos = latticePosition(rgb[c], u_shaperMin[c], u_shaperMax[c], u_shaperSize);
+        if (u_interpolation == 0) {
+            result[c] = shaperAt(int(floor(pos + 0.5)))[c];
+        } else {
+            int i0 = int(floor(pos));
+            int i1 = min(i0 + 1, u_shaperSize - 1);
+            float f = pos - float(i0);
+            result[c] = shaperAt(i0)[c] * (1.0 - f) + shaperAt(i1)[c] * f;
+        }
+    }
+    return result;
+}
+
+vec3 cubeAt(int r, int g, int b) {
+    return texelFetch(u_cube, ivec3(r, g, b), 0).rgb;
+}
+
+vec3 applyCube(vec3 rgb) {
+    int maxIndex = u_cubeSize - 1;
+    float pr = latticePosition(rgb.r, u_cubeMin.r, u_cubeMax.r, u_cubeSize);
+    float pg = latticePosition(rgb.g, u_cubeMin.g, u_cubeMax.g, u_cubeSize);
+    float pb = latticePosition(rgb.b, u_cubeMin.b, u_cubeMax.b, u_cubeSize);
+    if (u_interpolation == 0) {
+        return cubeAt(int(floor(pr + 0.5)), int(floor(pg + 0.5)), int(floor(pb + 0.5)));
+    }
+    int r0 = int(floor(pr)), g0 = int(floor(pg)), b0 = int(floor(pb));
+    int r1 = min(r0 + 1, maxIndex), g1 = min(g0 + 1, maxIndex), b1 = min(b0 + 1, maxIndex);
+    float fr = pr - float(r0), fg = pg - float(g0), fb = pb - float(b0);
+    vec3 c000 = cubeAt(r0, g0, b0);
+    vec3 c111 = cubeAt(r1, g1, b1);
+    if (u_interpolation == 1) {
+        vec3 x00 = mix(c000, cubeAt(r1, g0, b0), fr);
+        vec3 x10 = mix(cubeAt(r0, g1, b0), cubeAt(r1, g1, b0), fr);
+        vec3 x01 = mix(cubeAt(r0, g0, b1), cubeAt(r1, g0, b1), fr);
+        vec3 x11 = mix(cubeAt(r0, g1, b1), c111, fr);
+        return mix(mix(x00, x10, fg), mix(x01, x11, fg), fb);
+    }
+    vec3 cA, cB;
+    float w0, wA, wB, wC;
+    if (fr >= fg) {
+        if (fg >= fb) {
+            cA = cubeAt(r1, g0, b0); cB = cubeAt(r1, g1, b0);
+            w0 = 1.0 - fr; wA = fr - fg; wB = fg - fb; wC = fb;
+        } else if (fr >= fb) {
+            cA = cubeAt(r1, g0, b0); cB = cubeAt(r1, g0, b1);
+            w0 = 1.0 - fr; wA = fr - fb; wB = fb - fg; wC = fg;
+        } else {
+            cA = cubeAt(r0, g0, b1); cB = cubeAt(r1, g0, b1);
+            w0 = 1.0 - fb; wA = fb - fr; wB = fr - fg; wC = fg;
+        }
+    } else {
+        if (fb >= fg) {
+            cA = cubeAt(r0, g0, b1); cB = cubeAt(r0, g1, b1);
+            w0 = 1.0 - fb; wA = fb - fg; wB = fg - fr; wC = fr;
+        } else if (fb >= fr) {
+            cA = cubeAt(r0, g1, b0); cB = cubeAt(r0, g1, b1);
+            w0 = 1.0 - fg; wA = fg - fb; wB = fb - fr; wC = fr;
+        } else {
+            cA = cubeAt(r0, g1, b0); cB = cubeAt(r1, g1, b0);
+            w0 = 1.0 - fg; wA = fg - fr; wB = fr - fb; wC = fb;
+        }
+    }
+    return c000 * w0 + cA * wA + cB * wB + c111 * wC;
+}
+
+float hashGrain(int x, int y, uint seed) {
+    uint h = seed ^ (uint(x) * 0x27d4eb2du) ^ (uint(y) * 0x165667b1u);
+    h = (h ^ (h >> 15u)) * 0x2c1b3c6du;
+    h = (h ^ (h >> 12u)) * 0x297a2d39u;
+    h ^= h >> 15u;
+    return float(h) / 4294967296.0;
+}
+
+float valueNoise(float u, float v, uint seed) {
+    int x0 = int(floor(u)), y0 = int(floor(v));
+    float fx = u - float(x0), fy = v - float(y0);
+    float sx = fx * fx * (3.0 - 2.0 * fx);
+    float sy = fy * fy * (3.0 - 2.0 * fy);
+    float top = mix(hashGrain(x0, y0, seed), hashGrain(x0 + 1, y0, seed), sx);
+    float bottom = mix(hashGrain(x0, y0 + 1, seed), hashGrain(x0 + 1, y0 + 1, seed), sx);
+    return mix(top, bottom, sy) - 0.5;
+}
+
+float filmNoise(float u, float v, uint seed) {
+    return valueNoise(u, v, seed) * 1.1 + valueNoise(u * 0.5, v * 0.5, seed ^ 0x9e3779b9u) * 0.75;
+}
+
+float grainLuminanceResponse(float luma) {
+    float l = clamp(luma, 0.0, 1.0);
+    return 0.25 + 3.0 * l * (1.0 - l);
+}
+
+void main() {
+    int x = int(floor(gl_FragCoord.x));
+    int y = int(u_size.y) - 1 - int(floor(gl_FragCoord.y));
+    vec3 rgb = floor(texelFetch(u_source, ivec2(x, y), 0).rgb * 255.0 + 0.5);
+
+    if (u_linear) {
+        rgb = vec3(srgbToLinear(rgb.r / 255.0), srgbToLinear(rgb.g / 255.0), srgbToLinear(rgb.b / 255.0));
+        rgb *= u_exposureGain;
+        rgb *= u_wbGains;
+        if (u_highlights != 0.0) rgb = applyToneCurve(rgb, u_highlights, 0);
+        if (u_shadows != 0.0) rgb = applyToneCurve(rgb, u_shadows, 1);
+        if (u_whites != 0.0) rgb = applyToneCurve(rgb, u_whites, 2);
+        if (u_blacks != 0.0) rgb = applyToneCurve(rgb, u_blacks, 3);
+        if (u_contrast != 0.0) rgb = applyToneCurve(rgb, u_contrast, 4);
+        if (u_saturation != 0.0) rgb = scaleChroma(rgb, 1.0 + u_saturation);
+        if (u_vibrance != 0.0) {
+            float maxC = max(rgb.r, max(rgb.g, rgb.b));
+            float saturation = maxC > 0.0 ? (maxC - min(rgb.r, min(rgb.g, rgb.b))) / maxC : 0.0;
+            rgb = scaleChroma(rgb, 1.0 + u_vibrance * (1.0 - saturation));
+        }
+        rgb = max(rgb, 0.0);
+        rgb = vec3(linearToSrgb(rgb.r), linearToSrgb(rgb.g), linearToSrgb(rgb.b)) * 255.0;
+    }
+    rgb = clamp(rgb, 0.0, 255.0);
+
+    if (u_curveLuma) {
+        float y = dot(rgb, LUMA);
+        rgb = clamp(rgb + (sampleCurve(0, y) - y), 0.0, 255.0);
+    }
+    for (int c = 0; c < 3; c++) {
+        if (u_curveChannels[c]) rgb[c] = sampleCurve(c + 1, rgb[c]);
+    }
+
+    vec3 lutRgb = rgb / 255.0;
+    if (u_hasShaper) lutRgb = applyShaper(lutRgb);
+    if (u_hasCube) lutRgb = applyCube(lutRgb);
+    rgb = clamp(rgb + (clamp(lutRgb * 255.0, 0.0, 255.0) - rgb) * u_intensity, 0.0, 255.0);
+
+    if (u_grain > 0.0) {
+        float u = (float(x) + 0.5) * u_grainScale;
+        float v = (float(y) + 0.5) * u_grainScale;
+        vec3 noise;
+        if (u_grainColor) {
+            float baseNoise = filmNoise(u, v, u_grainSeed) * 0.5;
+            noise = vec3(
+                baseNoise + filmNoise(u, v, u_grainSeed + 0x68e31da4u) * 0.5,
+                baseNoise + filmNoise(u, v, u_grainSeed + 0xb5297a4du) * 0.5,
+                baseNoise + filmNoise(u, v, u_grainSeed + 0x1b56c4e9u) * 0.5
+            );
+        } else {
+            noise = vec3(filmNoise(u, v, u_grainSeed));
+        }
+        float amount = u_grain * grainLuminanceResponse(dot(rgb, LUMA) / 255.0);
+        rgb = clamp(rgb + noise * amount, 0.0, 255.0);
+    }
+
+    outColor = vec4(rgb / 255.0, 1.0);
+}
+`;
+
+const INTERPOLATION_INDEX = { nearest: 0, trilinear: 1, tetrahedral: 2 } as const;
+
+// Renderer software (SwiftShader, llvmpipe) terlalu lambat untuk pratinjau
+// real-time; jalur CPU di worker lebih cocok.
+const SOFTWARE_RENDERER_PATTERN = /swiftshader|llvmpipe|softpipe|software/i;
+
+// Batas atas resolusi pratinjau GPU, supaya memori canvas tetap wajar.
+const MAX_GPU_PREVIEW_EDGE = 8192;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Gagal membuat shader WebGL.');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Shader WebGL gagal dikompilasi: ${log}`);
+    }
+    return shader;
+};
+
+const getRendererName = (gl: WebGL2RenderingContext): string => {
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    return String(debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER));
+};
+
+export class WebGLPreviewRenderer implements PreviewBackend {
+    readonly canvas: HTMLCanvasElement;
+    readonly maxPreviewEdge: number;
+    private gl: WebGL2RenderingContext;
+    private program: WebGLProgram;
+    private sourceTexture: WebGLTexture | null = null;
+    private shaperTexture: WebGLTexture | null = null;
+    private cubeTexture: WebGLTexture | null = null;
+    private curvesTexture: WebGLTexture | null = null;
+    private curves: ToneCurves | null = null;
+    private lut: Lut | null = null;
+    private width = 0;
+    private height = 0;
+    private frameRequest: number | null = null;
+
+    // Mengembalikan null bila WebGL2 tidak ada atau hanya renderer software.
+    static create(): WebGLPreviewRenderer | null {
+        if (typeof document === 'undefined') return null;
+        const canvas = document.createElement('canvas');
+        const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true, premultipliedAlpha: false, antialias: false });
+        if (!gl) return null;
+        if (SOFTWARE_RENDERER_PATTERN.test(getRendererName(gl))) return null;
+        try {
+            return new WebGLPreviewRenderer(canvas, gl);
+        } catch (error) {
+            console.warn("WebGL2 tersedia tetapi gagal diinisialisasi, memakai CPU:", error);
+            return null;
+        }
+    }
+
+    private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+        this.canvas = canvas;
+        this.gl = gl;
+        this.maxPreviewEdge = Math.min(gl.getParameter(gl.MAX_TEXTURE_SIZE), MAX_GPU_PREVIEW_EDGE);
+
+        const program = gl.createProgram();
+        if (!program) throw new Error('Gagal membuat program WebGL.');
+        gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+        gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Program WebGL gagal di-link: ${gl.getProgramInfoLog(program)}`);
+        }
+        this.program = program;
+        gl.useProgram(program);
+
+        // Satu segitiga besar yang menutupi seluruh viewport.
+        const buffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+        const location = gl.getAttribLocation(program, 'a_position');
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+
+        gl.uniform1i(gl.getUniformLocation(program, 'u_source'), 0);
+        gl.uniform1i(gl.getUniformLocation(program, 'u_shaper'), 1);
+        gl.uniform1i(gl.getUniformLocation(program, 'u_cube'), 2);
+        gl.uniform1i(gl.getUniformLocation(program, 'u_curves'), 3);
+    }
+
+    private createTexture(unit: number, target: number): WebGLTexture {
+        const gl = this.gl;
+        const texture = gl.createTexture();
+        if (!texture) throw new Error('Gagal membuat tekstur WebGL.');
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(target, texture);
+        gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    private uniform(name: string) {
+        return this.gl.getUniformLocation(this.program, name);
+    }
+
+    setSource(image: PreviewSourceImage): void {
+        const gl = this.gl;
+        this.width = this.canvas.width = image.width;
+        this.height = this.canvas.height = image.height;
+        if (this.sourceTexture) gl.deleteTexture(this.sourceTexture);
+        this.sourceTexture = this.createTexture(0, gl.TEXTURE_2D);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, image);
+        gl.viewport(0, 0, this.width, this.height);
+        gl.uniform2f(this.uniform('u_size'), this.width, this.height);
+    }
+
+    setLut(lut: Lut): void {
+        const gl = this.gl;
+        this.lut = lut;
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+        if (this.shaperTexture) gl.deleteTexture(this.shaperTexture);
+        this.shaperTexture = null;
+        if (lut.shaper) {
+            // Shaper panjang (hingga 65536) dilipat ke beberapa baris tekstur.
+            const { size, data, domainMin, domainMax } = lut.shaper;
+            const width = Math.min(size, 4096);
+            const height = Math.ceil(size / width);
+            const padded = new Float32Array(width * height * 3);
+            padded.set(data);
+            this.shaperTexture = this.createTexture(1, gl.TEXTURE_2D);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB32F, width, height, 0, gl.RGB, gl.FLOAT, padded);
+            gl.uniform1i(this.uniform('u_shaperSize'), size);
+            gl.uniform1i(this.uniform('u_shaperWidth'), width);
+            gl.uniform3fv(this.uniform('u_shaperMin'), domainMin);
+            gl.uniform3fv(this.uniform('u_shaperMax'), domainMax);
+        }
+        gl.uniform1i(this.uniform('u_hasShaper'), lut.shaper ? 1 : 0);
+
+        if (this.cubeTexture) gl.deleteTexture(this.cubeTexture);
+        this.cubeTexture = null;
+        if (lut.cube) {
+            const { size, data, domainMin, domainMax } = lut.cube;
+            this.cubeTexture = this.createTexture(2, gl.TEXTURE_3D);
+            gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+            gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB32F, size, size, size, 0, gl.RGB, gl.FLOAT, data);
+            gl.uniform1i(this.uniform('u_cubeSize'), size);
+            gl.uniform3fv(this.uniform('u_cubeMin'), domainMin);
+            gl.uniform3fv(this.uniform('u_cubeMax'), domainMax);
+        }
+        gl.uniform1i(this.uniform('u_hasCube'), lut.cube ? 1 : 0);
+    }
+
+    // Digabung per frame animasi: hanya pengaturan terakhir yang digambar.
+    render(settings: PipelineSettings, callbacks: PreviewRenderCallbacks): void {
+        if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+        this.frameRequest = requestAnimationFrame(() => {
+            this.frameRequest = null;
+            if (this.sourceTexture && this.lut) {
+                this.draw(settings);
+                callbacks.onFrame(this.canvas, 'full');
+            }
+            callbacks.onDone();
+        });
+    }
+
+    private draw(settings: PipelineSettings) {
+        const gl = this.gl;
+        const { exposure, whiteBalance, tint, highlights, shadows, whites, blacks, contrast, saturation, vibrance } = settings;
+        const linear = exposure || whiteBalance || tint || highlights || shadows || whites || blacks || contrast || saturation || vibrance;
+        gl.uniform1i(this.uniform('u_linear'), linear ? 1 : 0);
+        gl.uniform1f(this.uniform('u_exposureGain'), exposureGain(exposure));
+        gl.uniform3fv(this.uniform('u_wbGains'), whiteBalance || tint ? whiteBalanceGains(whiteBalance, tint) : [1, 1, 1]);
+        gl.uniform1f(this.uniform('u_highlights'), highlights / 100);
+        gl.uniform1f(this.uniform('u_shadows'), shadows / 100);
+        gl.uniform1f(this.uniform('u_whites'), whites / 100);
+        gl.uniform1f(this.uniform('u_blacks'), blacks / 100);
+        gl.uniform1f(this.uniform('u_contrast'), contrast / 100);
+        gl.uniform1f(this.uniform('u_saturation'), saturation / 100);
+        gl.uniform1f(this.uniform('u_vibrance'), vibrance / 100);
+        this.setCurves(settings.curves);
+        gl.uniform1i(this.uniform('u_interpolation'), INTERPOLATION_INDEX[settings.interpolation]);
+        gl.uniform1f(this.uniform('u_intensity'), settings.intensity / 100);
+
+        const grainScale = GRAIN_REFERENCE_LONG_EDGE / Math.max(this.width, this.height) / grainCellSize(settings.grainSize);
+        gl.uniform1f(this.uniform('u_grain'), settings.grain);
+        gl.uniform1f(this.uniform('u_grainScale'), grainScale);
+        gl.uniform1ui(this.uniform('u_grainSeed'), settings.grainSeed >>> 0);
+        gl.uniform1i(this.uniform('u_grainColor'), settings.grainType === 'color' ? 1 : 0);
+
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    // Tabel kurva hanya diunggah ulang bila objek kurvanya berganti.
+    private setCurves(curves: ToneCurves) {
+        if (curves === this.curves) return;
+        const gl = this.gl;
+        this.curves = curves;
+        const table = new Float32Array(256 * TONE_CURVE_CHANNELS.length);
+        TONE_CURVE_CHANNELS.forEach((channel, row) => table.set(buildCurveTable(curves[channel]), row * 256));
+        if (this.curvesTexture) gl.deleteTexture(this.curvesTexture);
+        this.curvesTexture = this.createTexture(3, gl.TEXTURE_2D);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, 256, TONE_CURVE_CHANNELS.length, 0, gl.RED, gl.FLOAT, table);
+        gl.uniform1i(this.uniform('u_curveLuma'), isIdentityCurve(curves.luma) ? 0 : 1);
+        gl.uniform3i(
+            this.uniform('u_curveChannels'),
+            isIdentityCurve(curves.red) ? 0 : 1,
+            isIdentityCurve(curves.green) ? 0 : 1,
+            isIdentityCurve(curves.blue) ? 0 : 1,
+        );
+    }
+
+    dispose(): void {
+        if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+        const gl = this.gl;
+        [this.sourceTexture, this.shaperTexture, this.cubeTexture, this.curvesTexture].forEach(texture => texture && gl.deleteTexture(texture));
+        gl.deleteProgram(this.program);
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+}
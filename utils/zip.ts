@@ -0,0 +1,88 @@
+// Khusus server: penulis ZIP minimal tanpa kompresi (metode "stored").
+// Foto hasil ekspor sudah terkompresi, jadi deflate hanya membuang waktu.
+// Tanpa ZIP64: total arsip dibatasi 4 GB.
+import zlib from 'zlib';
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const MAX_ZIP_BYTES = 0xffffffff;
+// Bit 11: nama file dalam UTF-8.
+const FLAG_UTF8 = 0x0800;
+
+// Tanggal/waktu format MS-DOS (resolusi 2 detik, waktu lokal).
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Buffer => {
+    const { time, date } = dosDateTime(modified);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const crc = zlib.crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(10, 4);
+        local.writeUInt16LE(FLAG_UTF8, 6);
+        local.writeUInt16LE(0, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(size, 18);
+        local.writeUInt32LE(size, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(10, 6);
+        central.writeUInt16LE(FLAG_UTF8, 8);
+        central.writeUInt16LE(0, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(size, 20);
+        central.writeUInt32LE(size, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, Buffer.from(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength));
+        centralParts.push(central, name);
+        offset += local.length + name.length + size;
+        if (offset > MAX_ZIP_BYTES) {
+            throw new Error('Arsip ZIP melebihi 4 GB.');
+        }
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...localParts, ...centralParts, end]);
+};
+
+// Nama kembar (mis. template tanpa {nama}) diberi akhiran _2, _3, dst.
+export const uniqueZipNames = (names: string[]): string[] => {
+    const used = new Set<string>();
+    return names.map(name => {
+        let candidate = name;
+        const dot = name.lastIndexOf('.');
+        const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+        for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${base}_${n}${extension}`;
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+};